@@ -1,27 +1,25 @@
 import { useState, useEffect } from 'react';
 import { createClient } from './utils/supabase/client';
-import { projectId, publicAnonKey } from './utils/supabase/info';
+import { createApiClient } from './utils/api/client';
 import { AuthPage } from './components/AuthPage';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
+import type { ProfileFormValues } from './components/CreateProfileDialog';
 import { NotesPage } from './components/NotesPage';
 import { SettingsPage } from './components/SettingsPage';
 import { VisualizePage } from './components/VisualizePage';
+import { BudgetsPage } from './components/BudgetsPage';
 import { Toaster } from './components/ui/sonner';
 import { toast } from 'sonner@2.0.3';
+import { WifiOff } from 'lucide-react';
+import { cacheProfiles, clearOfflineData, isNetworkError, loadCachedProfiles, replayMutations, useOnlineStatus } from './utils/offline';
+import { useProfileChanges } from './utils/realtime';
+import type { Profile, Reminder, UserLimits } from '@shared/contracts';
 
-interface Profile {
-  id: string;
-  name: string;
-  avatar?: string;
-  description: string;
-}
-
-type Page = 'dashboard' | 'settings' | 'visualize';
+type Page = 'dashboard' | 'settings' | 'visualize' | 'budgets';
 
 export default function App() {
   const [user, setUser] = useState<any>(null);
-  const [accessToken, setAccessToken] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
@@ -29,6 +27,9 @@ export default function App() {
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const [darkMode, setDarkMode] = useState(false);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [limits, setLimits] = useState<UserLimits | null>(null);
+  const online = useOnlineStatus();
 
   useEffect(() => {
     checkSession();
@@ -41,6 +42,34 @@ export default function App() {
     }
   }, [darkMode]);
 
+  // Deletes, renames and reorders made while offline go out on reconnect
+  useEffect(() => {
+    if (!user || !online) return;
+    replayMutations(createApiClient()).catch((error) => {
+      console.error('Failed to replay offline changes:', error);
+    });
+  }, [user, online]);
+
+  // Profiles added, edited or deleted in another session
+  useProfileChanges(user?.id, (change) => {
+    if (change.op === 'DELETE') {
+      const profileId = change.record.id;
+      setProfiles(profiles => profiles.filter(p => p.id !== profileId));
+      if (selectedProfile?.id === profileId) {
+        setSelectedProfile(null);
+        // Unsharing removes the profile from a collaborator's list the same way
+        toast.info((selectedProfile.role ?? 'owner') === 'owner' ? 'This profile was deleted on another device' : 'This profile is no longer shared with you');
+      }
+      return;
+    }
+
+    const { record } = change;
+    setProfiles(profiles =>
+      profiles.some(p => p.id === record.id) ? profiles.map(p => (p.id === record.id ? record : p)) : [...profiles, record],
+    );
+    setSelectedProfile(selected => (selected?.id === record.id ? record : selected));
+  });
+
   const checkSession = async () => {
     try {
       const supabase = createClient();
@@ -53,8 +82,8 @@ export default function App() {
 
       if (session?.user) {
         setUser(session.user);
-        setAccessToken(session.access_token);
-        await loadProfiles(session.access_token);
+        await loadProfiles();
+        loadReminders();
       }
     } catch (error) {
       console.error('Failed to check session:', error);
@@ -81,9 +110,9 @@ export default function App() {
 
       if (data.session) {
         setUser(data.session.user);
-        setAccessToken(data.session.access_token);
-        await loadProfiles(data.session.access_token);
+        await loadProfiles();
         toast.success('Welcome back!');
+        loadReminders();
       }
     } catch (error: any) {
       console.error('Login error:', error);
@@ -98,21 +127,7 @@ export default function App() {
     setAuthError(null);
     
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/signup`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ email, password, name }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        setAuthError(data.error || 'Failed to sign up');
-        return;
-      }
+      await createApiClient().signup({ email, password, name });
 
       // Now login
       await handleLogin(email, password);
@@ -158,10 +173,12 @@ export default function App() {
     try {
       const supabase = createClient();
       await supabase.auth.signOut();
+      clearOfflineData();
       setUser(null);
-      setAccessToken('');
       setProfiles([]);
       setSelectedProfile(null);
+      setReminders([]);
+      setLimits(null);
       setCurrentPage('dashboard');
       toast.success('Logged out successfully');
     } catch (error) {
@@ -170,44 +187,80 @@ export default function App() {
     }
   };
 
-  const loadProfiles = async (token: string) => {
+  const loadProfiles = async () => {
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const loaded = await createApiClient().listProfiles();
+      setProfiles(loaded);
+      cacheProfiles(loaded);
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+      const cached = isNetworkError(error) ? loadCachedProfiles() : null;
+      if (cached) setProfiles(cached);
+    }
+    loadLimits();
+  };
+
+  const loadLimits = async () => {
+    try {
+      setLimits(await createApiClient().getLimits());
+    } catch (error) {
+      console.error('Failed to load limits:', error);
+    }
+  };
 
-      const data = await response.json();
+  // Fetch due reminders and toast the ones not shown yet, then mark those
+  // delivered so each reminder pops up only once across sessions
+  const loadReminders = async () => {
+    try {
+      const api = createApiClient();
+      const { reminders } = await api.listReminders();
+      setReminders(reminders);
 
-      if (response.ok) {
-        setProfiles(data.profiles || []);
-      } else {
-        console.error('Failed to load profiles:', data.error);
+      const undelivered = reminders.filter(r => !r.deliveredAt);
+      undelivered.forEach((reminder) => {
+        toast(reminder.title, { description: reminder.message, duration: 8000 });
+      });
+      if (undelivered.length > 0) {
+        await api.markRemindersDelivered(undelivered.map(r => r.id));
       }
     } catch (error) {
-      console.error('Failed to load profiles:', error);
+      console.error('Failed to load reminders:', error);
     }
   };
 
-  const handleCreateProfile = async (name: string, avatar: string, description: string) => {
+  const handleMarkRemindersRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    setReminders(reminders.map(r => (ids.includes(r.id) && !r.readAt ? { ...r, readAt } : r)));
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ name, avatar, description }),
-      });
+      await createApiClient().markRemindersRead(ids);
+    } catch (error: any) {
+      console.error('Failed to mark reminders read:', error);
+      toast.error(error.message || 'Failed to update reminders');
+    }
+  };
 
-      const data = await response.json();
+  // Uploads or removes the avatar after the profile itself was saved. A failed
+  // upload keeps the saved profile; the user can retry from the edit dialog.
+  const applyAvatar = async (profile: Profile, avatar: ProfileFormValues['avatar']) => {
+    if (avatar === undefined) return profile;
+    try {
+      const client = createApiClient();
+      return avatar ? await client.uploadAvatar(profile.id, avatar) : await client.removeAvatar(profile.id);
+    } catch (error: any) {
+      console.error('Failed to save avatar:', error);
+      toast.error(error.message || 'Failed to save the photo');
+      return profile;
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to create profile');
-      }
+  const handleCreateProfile = async ({ name, description, attributes, avatar }: ProfileFormValues) => {
+    try {
+      const created = await createApiClient().createProfile({ name, description, attributes });
+      const profile = await applyAvatar(created, avatar);
 
-      setProfiles([...profiles, data.profile]);
+      setProfiles([...profiles, profile]);
+      loadLimits();
       toast.success(`Profile "${name}" created successfully!`);
     } catch (error: any) {
       console.error('Failed to create profile:', error);
@@ -216,24 +269,36 @@ export default function App() {
     }
   };
 
+  const handleUpdateProfile = async (profileId: string, { name, description, attributes, avatar }: ProfileFormValues) => {
+    try {
+      const updated = await createApiClient().updateProfile(profileId, { name, description, attributes });
+      const saved = await applyAvatar(updated, avatar);
+      // Update responses don't carry the caller's role on shared profiles
+      const previous = profiles.find(p => p.id === profileId);
+      const profile = { ...saved, role: previous?.role ?? saved.role, sharedBy: previous?.sharedBy ?? saved.sharedBy };
+
+      setProfiles(profiles.map(p => (p.id === profileId ? profile : p)));
+      if (selectedProfile?.id === profileId) {
+        setSelectedProfile(profile);
+      }
+      toast.success(`Profile "${profile.name}" updated`);
+    } catch (error: any) {
+      console.error('Failed to update profile:', error);
+      toast.error(error.message || 'Failed to update profile');
+      throw error;
+    }
+  };
+
   const handleDeleteProfile = async (profileId: string) => {
     if (!confirm('Are you sure you want to delete this profile? All notes will be lost.')) {
       return;
     }
 
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profileId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete profile');
-      }
+      await createApiClient().deleteProfile(profileId);
 
       setProfiles(profiles.filter(p => p.id !== profileId));
+      loadLimits();
       if (selectedProfile?.id === profileId) {
         setSelectedProfile(null);
       }
@@ -244,18 +309,40 @@ export default function App() {
     }
   };
 
+  const handleLeaveProfile = async (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!confirm(`Remove "${profile?.name ?? 'this profile'}" from your shared profiles? ${profile?.sharedBy ?? 'The owner'} can invite you again.`)) {
+      return;
+    }
+
+    try {
+      await createApiClient().leaveSharedProfile(profileId);
+
+      setProfiles(profiles.filter(p => p.id !== profileId));
+      if (selectedProfile?.id === profileId) {
+        setSelectedProfile(null);
+      }
+      toast.success('Profile removed from your list');
+    } catch (error: any) {
+      console.error('Failed to leave shared profile:', error);
+      toast.error(error.message || 'Failed to leave shared profile');
+    }
+  };
+
   const handleOpenProfile = (profile: Profile) => {
     setSelectedProfile(profile);
   };
 
   const handleBackFromNotes = () => {
     setSelectedProfile(null);
-    loadProfiles(accessToken); // Reload profiles in case they were updated
+    loadProfiles(); // Reload profiles in case they were updated
   };
 
   const handleNavigate = (page: Page) => {
     setCurrentPage(page);
     setSelectedProfile(null);
+    // Embedding usage changes with every save and search
+    if (page === 'settings') loadLimits();
   };
 
   const toggleDarkMode = () => {
@@ -296,6 +383,8 @@ export default function App() {
         darkMode={darkMode}
         onToggleDarkMode={toggleDarkMode}
         onLogout={handleLogout}
+        reminders={reminders}
+        onMarkRemindersRead={handleMarkRemindersRead}
       />
       
       <main className="flex-1 overflow-auto">
@@ -303,30 +392,39 @@ export default function App() {
           <NotesPage
             profile={selectedProfile}
             onBack={handleBackFromNotes}
-            accessToken={accessToken}
           />
         ) : currentPage === 'dashboard' ? (
           <Dashboard
             profiles={profiles}
+            limits={limits}
             onCreateProfile={handleCreateProfile}
             onOpenProfile={handleOpenProfile}
+            onEditProfile={handleUpdateProfile}
             onDeleteProfile={handleDeleteProfile}
+            onLeaveProfile={handleLeaveProfile}
           />
+        ) : currentPage === 'budgets' ? (
+          <BudgetsPage profiles={profiles} />
         ) : currentPage === 'visualize' ? (
-          <VisualizePage
-            accessToken={accessToken}
-            profiles={profiles}
-          />
+          <VisualizePage profiles={profiles} />
         ) : (
           <SettingsPage
             darkMode={darkMode}
             onToggleDarkMode={toggleDarkMode}
             userEmail={user?.email}
             userName={user?.user_metadata?.name}
+            limits={limits}
           />
         )}
       </main>
 
+      {!online && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 rounded-full bg-gray-900 text-white dark:bg-white dark:text-gray-900 px-4 py-2 text-sm shadow-lg" role="status">
+          <WifiOff className="h-4 w-4" />
+          Offline. Changes are kept on this device and synced when you reconnect.
+        </div>
+      )}
+
       <Toaster />
     </div>
   );
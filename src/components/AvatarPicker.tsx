@@ -0,0 +1,149 @@
+import { useEffect, useRef } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { ImagePlus } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { cropRect, DEFAULT_CROP, drawCrop, loadImage, type SquareCrop } from '../utils/image';
+
+// Photos larger than this are refused before decoding; what gets uploaded is
+// always the small WebP rendered from the crop
+const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+// Shown size in CSS pixels; the canvas is drawn at twice that for HiDPI
+const PREVIEW_SIZE = 80;
+
+// A new photo with its crop, 'remove' to drop the current avatar, or null to
+// keep it
+export type AvatarChoice = { image: HTMLImageElement; crop: SquareCrop } | 'remove' | null;
+
+interface AvatarPickerProps {
+  name: string;
+  currentUrl?: string;
+  value: AvatarChoice;
+  onChange: (value: AvatarChoice) => void;
+}
+
+export function AvatarPicker({ name, currentUrl, value, onChange }: AvatarPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const selection = value && value !== 'remove' ? value : null;
+
+  useEffect(() => {
+    if (selection && canvasRef.current) {
+      drawCrop(canvasRef.current, selection.image, selection.crop);
+    }
+  }, [selection]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_SOURCE_BYTES) {
+      toast.error('That image is too large (20 MB max)');
+      return;
+    }
+    try {
+      onChange({ image: await loadImage(file), crop: DEFAULT_CROP });
+    } catch (error: any) {
+      toast.error(error.message || 'Could not read the image');
+    }
+  };
+
+  const setCrop = (crop: Partial<SquareCrop>) => {
+    if (selection) onChange({ ...selection, crop: { ...selection.crop, ...crop } });
+  };
+
+  // Dragging moves the photo under the circle, so the crop moves the other way
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!selection || !dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    const { side } = cropRect(selection.image, selection.crop);
+    const scale = side / PREVIEW_SIZE;
+    const slackX = (selection.image.naturalWidth - side) / 2;
+    const slackY = (selection.image.naturalHeight - side) / 2;
+    const clamp = (n: number) => Math.max(-1, Math.min(1, n));
+    setCrop({
+      offsetX: slackX > 0 ? clamp(selection.crop.offsetX - (dx * scale) / slackX) : 0,
+      offsetY: slackY > 0 ? clamp(selection.crop.offsetY - (dy * scale) / slackY) : 0,
+    });
+  };
+
+  const initials = name
+    ? name
+        .split(' ')
+        .map(n => n[0])
+        .join('')
+        .toUpperCase()
+        .slice(0, 2)
+    : '??';
+  const shownUrl = value === 'remove' ? undefined : currentUrl;
+
+  return (
+    <div className="flex items-start gap-4">
+      {selection ? (
+        <canvas
+          ref={canvasRef}
+          width={PREVIEW_SIZE * 2}
+          height={PREVIEW_SIZE * 2}
+          style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          className="rounded-full border-2 border-gray-100 dark:border-gray-800 shadow-sm cursor-move touch-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragRef.current = { x: e.clientX, y: e.clientY };
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+        />
+      ) : (
+        <Avatar className="h-20 w-20 border-2 border-gray-100 dark:border-gray-800 shadow-sm">
+          <AvatarImage src={shownUrl} alt={name} />
+          <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white">
+            {initials}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      <div className="flex-1 space-y-3">
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => inputRef.current?.click()}>
+            <ImagePlus className="h-4 w-4" />
+            {selection || shownUrl ? 'Change photo' : 'Upload photo'}
+          </Button>
+          {selection ? (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+              Discard
+            </Button>
+          ) : (
+            shownUrl && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange('remove')}>
+                Remove
+              </Button>
+            )
+          )}
+        </div>
+        {selection && (
+          <div className="space-y-2">
+            <Slider
+              min={1}
+              max={3}
+              step={0.05}
+              value={[selection.crop.zoom]}
+              onValueChange={([zoom]) => setCrop({ zoom })}
+              aria-label="Zoom"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">Drag the photo to position it, zoom with the slider.</p>
+          </div>
+        )}
+        <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+}
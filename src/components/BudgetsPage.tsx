@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts@2.15.2';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Progress } from './ui/progress';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { createApiClient } from '../utils/api/client';
+import type { BudgetLine, BudgetSummaryResponse, Occasion, Profile, SetBudgetRequest } from '@shared/contracts';
+
+const chartConfig = {
+  budget: { label: 'Budget', color: 'var(--chart-1)' },
+  spent: { label: 'Spent', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+function formatMoney(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+interface BudgetsPageProps {
+  profiles: Profile[];
+}
+
+export function BudgetsPage({ profiles }: BudgetsPageProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [summary, setSummary] = useState<BudgetSummaryResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSummary();
+  }, [year]);
+
+  const loadSummary = async () => {
+    try {
+      setLoading(true);
+      setSummary(await createApiClient().getBudgetSummary(year));
+    } catch (error) {
+      console.error('Failed to load budgets:', error);
+      toast.error('Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setBudget = async (profileId: string, request: SetBudgetRequest) => {
+    await createApiClient().setBudget(profileId, request);
+    toast.success('Budget saved');
+    await loadSummary();
+  };
+
+  const deleteBudget = async (profileId: string, budgetId: string) => {
+    try {
+      await createApiClient().deleteBudget(profileId, budgetId);
+      await loadSummary();
+    } catch (error: any) {
+      console.error('Failed to delete budget:', error);
+      toast.error(error.message || 'Failed to delete budget');
+    }
+  };
+
+  const lines = summary?.profiles ?? [];
+  const multipleCurrencies = new Set(lines.map(line => line.currency)).size > 1;
+  const chartData = lines.map((line) => ({
+    name: multipleCurrencies ? `${line.profileName} (${line.currency})` : line.profileName,
+    budget: line.budget ?? 0,
+    spent: line.spent,
+  }));
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-gray-900 dark:text-white mb-2">Budgets</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Plan what you spend on each recipient and compare it with the gifts you've bought
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-28 h-11">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear + 1, currentYear, currentYear - 1, currentYear - 2].map((y) => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SetBudgetDialog profiles={profiles} year={year} onSave={setBudget} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-indigo-200 border-t-indigo-600 dark:border-gray-700 dark:border-t-indigo-500"></div>
+          <p className="mt-4 text-gray-600 dark:text-gray-400">Loading budgets...</p>
+        </div>
+      ) : lines.length === 0 ? (
+        <div className="text-center py-20 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 mb-4">
+            <Wallet className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <p className="text-gray-600 dark:text-gray-400 mb-2">No budgets or purchases in {year}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500">
+            Set a budget above, or mark gift ideas as purchased to track spending
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {summary!.totals.map((total) => (
+              <Card key={total.currency} className="shadow-sm border-gray-200 dark:border-gray-800">
+                <CardHeader>
+                  <CardDescription>Total {year} ({total.currency})</CardDescription>
+                  <CardTitle className="text-gray-900 dark:text-white">
+                    {formatMoney(total.spent, total.currency)} of {formatMoney(total.budget, total.currency)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SpendProgress budget={total.budget} spent={total.spent} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="shadow-sm border-gray-200 dark:border-gray-800">
+            <CardHeader>
+              <CardTitle>Budget vs Actual</CardTitle>
+              <CardDescription>Yearly budget and spend per recipient in {year}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={60} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="budget" fill="var(--color-budget)" radius={4} />
+                  <Bar dataKey="spent" fill="var(--color-spent)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {lines.map((line) => (
+              <Card key={`${line.profileId}:${line.currency}`} className="shadow-sm border-gray-200 dark:border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-gray-900 dark:text-white">{line.profileName}</CardTitle>
+                  <CardDescription>Whole year · {line.currency}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <BudgetLineRow
+                    line={line}
+                    onDelete={line.budgetId ? () => deleteBudget(line.profileId, line.budgetId!) : undefined}
+                  />
+                  {line.occasions.map((occasion) => (
+                    <div key={occasion.occasionId} className="pl-4 border-l-2 border-indigo-100 dark:border-indigo-950">
+                      <p className="text-sm text-gray-700 dark:text-gray-300 mb-1">{occasion.occasionName}</p>
+                      <BudgetLineRow
+                        line={occasion}
+                        onDelete={occasion.budgetId ? () => deleteBudget(line.profileId, occasion.budgetId!) : undefined}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SpendProgress({ budget, spent }: { budget: number | null; spent: number }) {
+  if (!budget) return null;
+  const percent = Math.round((spent / budget) * 100);
+  return (
+    <div className="space-y-1">
+      <Progress value={Math.min(percent, 100)} className={percent > 100 ? '[&_[data-slot=progress-indicator]]:bg-red-500' : ''} />
+      <p className={`text-xs ${percent > 100 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+        {percent > 100 ? `${percent - 100}% over budget` : `${percent}% used`}
+      </p>
+    </div>
+  );
+}
+
+function BudgetLineRow({ line, onDelete }: { line: BudgetLine; onDelete?: () => void }) {
+  return (
+    <div className="flex items-center gap-4">
+      <div className="flex-1 space-y-1">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {formatMoney(line.spent, line.currency)} spent
+          {line.budget !== null ? ` of ${formatMoney(line.budget, line.currency)}` : ' · no budget set'}
+        </p>
+        <SpendProgress budget={line.budget} spent={line.spent} />
+      </div>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface SetBudgetDialogProps {
+  profiles: Profile[];
+  year: number;
+  onSave: (profileId: string, request: SetBudgetRequest) => Promise<void>;
+}
+
+function SetBudgetDialog({ profiles, year, onSave }: SetBudgetDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [profileId, setProfileId] = useState('');
+  const [occasions, setOccasions] = useState<Occasion[]>([]);
+  const [occasionId, setOccasionId] = useState('year');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setOccasionId('year');
+    setOccasions([]);
+    if (!profileId) return;
+    createApiClient()
+      .listOccasions(profileId)
+      .then(setOccasions)
+      .catch((error) => console.error('Failed to load occasions:', error));
+  }, [profileId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      await onSave(profileId, {
+        year,
+        occasionId: occasionId === 'year' ? undefined : occasionId,
+        amount: Number(amount),
+        currency: currency.trim().toUpperCase() || undefined,
+      });
+      setAmount('');
+      setOpen(false);
+    } catch (error: any) {
+      console.error('Failed to save budget:', error);
+      toast.error(error.message || 'Failed to save budget');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2 h-11 bg-indigo-600 hover:bg-indigo-700" disabled={profiles.length === 0}>
+          <Plus className="h-4 w-4" />
+          Set Budget
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Set a Budget for {year}</DialogTitle>
+          <DialogDescription>
+            Budget a recipient's whole year, or a single occasion such as their birthday.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Recipient</Label>
+            <Select value={profileId} onValueChange={setProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={occasionId} onValueChange={setOccasionId} disabled={!profileId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="year">Whole year</SelectItem>
+                {occasions.map((o) => (
+                  <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="w-24 space-y-2">
+              <Label htmlFor="budget-currency">Currency</Label>
+              <Input
+                id="budget-currency"
+                maxLength={3}
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !profileId || amount === ''}>
+              {loading ? 'Saving...' : 'Save Budget'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,36 +4,116 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
-import { Plus } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { ChevronDown, Plus } from 'lucide-react';
+import { AvatarPicker, type AvatarChoice } from './AvatarPicker';
+import { ProfileAttributesFields } from './ProfileAttributesFields';
+import { renderAvatar, type AvatarImages } from '../utils/image';
+import type { ProfileAttributes, QuotaUsage } from '@shared/contracts';
 
-interface CreateProfileDialogProps {
-  onCreateProfile: (name: string, avatar: string, description: string) => Promise<void>;
-  disabled?: boolean;
+export interface ProfileFormValues {
+  name: string;
+  description: string;
+  attributes: ProfileAttributes;
+  // New photo to upload, null to remove the current one, undefined to keep it
+  avatar?: AvatarImages | null;
 }
 
-export function CreateProfileDialog({ onCreateProfile, disabled }: CreateProfileDialogProps) {
-  const [open, setOpen] = useState(false);
-  const [name, setName] = useState('');
-  const [avatar, setAvatar] = useState('');
-  const [description, setDescription] = useState('');
+interface ProfileFormProps {
+  initialValues?: { name: string; description: string; attributes?: ProfileAttributes };
+  // URL of the avatar being edited, if any
+  currentAvatar?: string;
+  submitLabel: string;
+  submittingLabel: string;
+  onSubmit: (values: ProfileFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Name / avatar / description fields, shared with EditProfileDialog
+export function ProfileForm({ initialValues, currentAvatar, submitLabel, submittingLabel, onSubmit, onCancel }: ProfileFormProps) {
+  const [name, setName] = useState(initialValues?.name ?? '');
+  const [avatar, setAvatar] = useState<AvatarChoice>(null);
+  const [attributes, setAttributes] = useState<ProfileAttributes>(initialValues?.attributes ?? {});
+  const [description, setDescription] = useState(initialValues?.description ?? '');
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     try {
-      await onCreateProfile(name, avatar, description);
-      setName('');
-      setAvatar('');
-      setDescription('');
-      setOpen(false);
+      const images = avatar && avatar !== 'remove' ? await renderAvatar(avatar.image, avatar.crop) : undefined;
+      await onSubmit({ name, description, attributes, avatar: avatar === 'remove' ? null : images });
     } catch (error) {
-      console.error('Failed to create profile:', error);
+      console.error('Failed to save profile:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="profile-name">Name</Label>
+        <Input
+          id="profile-name"
+          placeholder="e.g., Sarah, Mom, Best Friend"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Photo (optional)</Label>
+        <AvatarPicker name={name} currentUrl={currentAvatar} value={avatar} onChange={setAvatar} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="profile-description">Description</Label>
+        <Textarea
+          id="profile-description"
+          placeholder="Brief description about this person"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          required
+        />
+      </div>
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="gap-2 px-0 group">
+            <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+            More details (relationship, sizes, likes and dislikes)
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <ProfileAttributesFields value={attributes} onChange={setAttributes} />
+        </CollapsibleContent>
+      </Collapsible>
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={loading}>
+          {loading ? submittingLabel : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CreateProfileDialogProps {
+  onCreateProfile: (values: ProfileFormValues) => Promise<void>;
+  disabled?: boolean;
+  // Profiles used / allowed on the user's plan, shown in the dialog
+  quota?: QuotaUsage;
+}
+
+export function CreateProfileDialog({ onCreateProfile, disabled, quota }: CreateProfileDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleCreate = async (values: ProfileFormValues) => {
+    await onCreateProfile(values);
+    setOpen(false);
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -42,52 +122,22 @@ export function CreateProfileDialog({ onCreateProfile, disabled }: CreateProfile
           Create Profile
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Profile</DialogTitle>
           <DialogDescription>
             Add a new profile to manage notes and discover gift ideas.
+            {quota && quota.limit !== null && ` You're using ${quota.used} of ${quota.limit} profiles.`}
           </DialogDescription>
         </DialogHeader>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="profile-name">Name</Label>
-            <Input
-              id="profile-name"
-              placeholder="e.g., Sarah, Mom, Best Friend"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              required
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="profile-avatar">Avatar URL (optional)</Label>
-            <Input
-              id="profile-avatar"
-              placeholder="https://example.com/avatar.jpg"
-              value={avatar}
-              onChange={(e) => setAvatar(e.target.value)}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="profile-description">Description</Label>
-            <Textarea
-              id="profile-description"
-              placeholder="Brief description about this person"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              required
-            />
-          </div>
-          <div className="flex gap-2 justify-end">
-            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading}>
-              {loading ? 'Creating...' : 'Create Profile'}
-            </Button>
-          </div>
-        </form>
+        {open && (
+          <ProfileForm
+            submitLabel="Create Profile"
+            submittingLabel="Creating..."
+            onSubmit={handleCreate}
+            onCancel={() => setOpen(false)}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,24 +1,60 @@
+import { useState, useEffect } from 'react';
 import { ProfileCard } from './ProfileCard';
-import { CreateProfileDialog } from './CreateProfileDialog';
+import { CreateProfileDialog, type ProfileFormValues } from './CreateProfileDialog';
+import { OccasionCountdownBadge } from './OccasionCountdownBadge';
 import { Alert, AlertDescription } from './ui/alert';
-import { InfoIcon } from 'lucide-react';
+import { Calendar } from './ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { CalendarDays, InfoIcon, Users } from 'lucide-react';
+import { createApiClient } from '../utils/api/client';
+import type { Profile, UpcomingOccasion, UserLimits } from '@shared/contracts';
 
-interface Profile {
-  id: string;
-  name: string;
-  avatar?: string;
-  description: string;
+// "YYYY-MM-DD" as a local Date for the calendar
+function toLocalDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
 }
 
 interface DashboardProps {
   profiles: Profile[];
-  onCreateProfile: (name: string, avatar: string, description: string) => Promise<void>;
+  // null until loaded; creation stays enabled so the server gets the final say
+  limits: UserLimits | null;
+  onCreateProfile: (values: ProfileFormValues) => Promise<void>;
   onOpenProfile: (profile: Profile) => void;
+  onEditProfile: (profileId: string, values: ProfileFormValues) => Promise<void>;
   onDeleteProfile: (profileId: string) => void;
+  onLeaveProfile: (profileId: string) => void;
 }
 
-export function Dashboard({ profiles, onCreateProfile, onOpenProfile, onDeleteProfile }: DashboardProps) {
-  const canCreateMore = profiles.length < 5;
+export function Dashboard({ profiles, limits, onCreateProfile, onOpenProfile, onEditProfile, onDeleteProfile, onLeaveProfile }: DashboardProps) {
+  // Profiles shared with the user don't count towards their plan
+  const ownProfiles = profiles.filter(p => (p.role ?? 'owner') === 'owner');
+  const sharedProfiles = profiles.filter(p => (p.role ?? 'owner') !== 'owner');
+  const maxProfiles = limits?.profiles.limit ?? null;
+  const canCreateMore = maxProfiles === null || ownProfiles.length < maxProfiles;
+  const profileQuota = limits ? { ...limits.profiles, used: ownProfiles.length } : undefined;
+  const [upcoming, setUpcoming] = useState<UpcomingOccasion[]>([]);
+
+  useEffect(() => {
+    loadUpcoming();
+  }, [profiles]);
+
+  const loadUpcoming = async () => {
+    if (profiles.length === 0) {
+      setUpcoming([]);
+      return;
+    }
+    try {
+      const { occasions } = await createApiClient().listUpcomingOccasions({ days: 90 });
+      setUpcoming(occasions);
+    } catch (error) {
+      // The dashboard still works without occasions
+      console.error('Failed to load upcoming occasions:', error);
+    }
+  };
+
+  // `upcoming` is sorted soonest first, so the first match is the next one
+  const nextOccasionFor = (profileId: string) => upcoming.find(o => o.profileId === profileId);
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
@@ -26,22 +62,24 @@ export function Dashboard({ profiles, onCreateProfile, onOpenProfile, onDeletePr
         <div>
           <h1 className="text-gray-900 dark:text-white mb-2">My Profiles</h1>
           <p className="text-gray-600 dark:text-gray-400">
-            Manage up to 5 profiles to organize notes and discover insights
+            {maxProfiles === null
+              ? 'Manage profiles to organize notes and discover insights'
+              : `Manage up to ${maxProfiles} profiles to organize notes and discover insights`}
           </p>
         </div>
-        <CreateProfileDialog onCreateProfile={onCreateProfile} disabled={!canCreateMore} />
+        <CreateProfileDialog onCreateProfile={onCreateProfile} disabled={!canCreateMore} quota={profileQuota} />
       </div>
 
       {!canCreateMore && (
         <Alert className="mb-6 border-indigo-200 bg-indigo-50 dark:bg-indigo-950/20 dark:border-indigo-900">
           <InfoIcon className="h-4 w-4 text-indigo-600 dark:text-indigo-400" />
           <AlertDescription className="text-indigo-700 dark:text-indigo-400">
-            You've reached the maximum of 5 profiles. Delete a profile to create a new one.
+            You've reached the maximum of {maxProfiles} profiles on the {limits?.planName} plan. Delete a profile to create a new one.
           </AlertDescription>
         </Alert>
       )}
 
-      {profiles.length === 0 ? (
+      {ownProfiles.length === 0 ? (
         <div className="text-center py-20">
           <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 mb-6">
             <svg
@@ -62,18 +100,87 @@ export function Dashboard({ profiles, onCreateProfile, onOpenProfile, onDeletePr
           <p className="text-gray-600 dark:text-gray-400 mb-8 max-w-md mx-auto">
             Create your first profile to get started with organizing notes and generating vector embeddings
           </p>
-          <CreateProfileDialog onCreateProfile={onCreateProfile} disabled={!canCreateMore} />
+          <CreateProfileDialog onCreateProfile={onCreateProfile} disabled={!canCreateMore} quota={profileQuota} />
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {profiles.map((profile) => (
-            <ProfileCard
-              key={profile.id}
-              profile={profile}
-              onOpen={onOpenProfile}
-              onDelete={onDeleteProfile}
-            />
-          ))}
+        <>
+          {upcoming.length > 0 && (
+            <Card className="mb-8 border-gray-200 dark:border-gray-800">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+                  Upcoming occasions
+                </CardTitle>
+                <CardDescription>Birthdays, anniversaries and other dates in the next 90 days</CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col md:flex-row gap-6">
+                <Calendar
+                  mode="multiple"
+                  selected={upcoming.map(o => toLocalDate(o.nextDate))}
+                  className="rounded-md border border-gray-200 dark:border-gray-800 self-start"
+                />
+                <ul className="flex-1 divide-y divide-gray-100 dark:divide-gray-800">
+                  {upcoming.slice(0, 8).map((occasion) => {
+                    const profile = profiles.find(p => p.id === occasion.profileId);
+                    return (
+                      <li key={occasion.id}>
+                        <button
+                          type="button"
+                          onClick={() => profile && onOpenProfile(profile)}
+                          className="w-full flex items-center justify-between gap-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-slate-900 rounded-md px-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-gray-900 dark:text-white truncate">{occasion.profileName}</p>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                              {toLocalDate(occasion.nextDate).toLocaleDateString(undefined, { weekday: 'short', month: 'long', day: 'numeric' })}
+                            </p>
+                          </div>
+                          <OccasionCountdownBadge occasion={occasion} />
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {ownProfiles.map((profile) => (
+              <ProfileCard
+                key={profile.id}
+                profile={profile}
+                nextOccasion={nextOccasionFor(profile.id)}
+                onOpen={onOpenProfile}
+                onEdit={onEditProfile}
+                onDelete={onDeleteProfile}
+                onLeave={onLeaveProfile}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {sharedProfiles.length > 0 && (
+        <div className="mt-12">
+          <h2 className="flex items-center gap-2 text-gray-900 dark:text-white mb-2">
+            <Users className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+            Shared with me
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">Profiles other people have invited you to</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {sharedProfiles.map((profile) => (
+              <ProfileCard
+                key={profile.id}
+                profile={profile}
+                nextOccasion={nextOccasionFor(profile.id)}
+                onOpen={onOpenProfile}
+                onEdit={onEditProfile}
+                onDelete={onDeleteProfile}
+                onLeave={onLeaveProfile}
+              />
+            ))}
+          </div>
         </div>
       )}
     </div>
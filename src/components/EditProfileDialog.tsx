@@ -0,0 +1,40 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { ProfileForm, type ProfileFormValues } from './CreateProfileDialog';
+import type { Profile } from '@shared/contracts';
+
+interface EditProfileDialogProps {
+  profile: Profile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (profileId: string, values: ProfileFormValues) => Promise<void>;
+}
+
+export function EditProfileDialog({ profile, open, onOpenChange, onSave }: EditProfileDialogProps) {
+  const handleSave = async (values: ProfileFormValues) => {
+    await onSave(profile.id, values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Profile</DialogTitle>
+          <DialogDescription>
+            Update {profile.name}'s details. Notes, gift ideas and occasions are kept.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <ProfileForm
+            initialValues={{ name: profile.name, description: profile.description, attributes: profile.attributes }}
+            currentAvatar={profile.avatar}
+            submitLabel="Save Changes"
+            submittingLabel="Saving..."
+            onSubmit={handleSave}
+            onCancel={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
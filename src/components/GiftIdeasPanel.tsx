@@ -0,0 +1,448 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertTriangle, ExternalLink, Gift, History, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { createApiClient } from '../utils/api/client';
+import { GIFT_STATUSES, type CreateGiftIdeaRequest, type GiftIdea, type GiftHistoryEntry, type GiftStatus, type Note, type Occasion, type PreviouslyGiven, type Profile } from '@shared/contracts';
+
+const STATUS_LABELS: Record<GiftStatus, string> = {
+  idea: 'Idea',
+  planned: 'Planned',
+  purchased: 'Purchased',
+  given: 'Given',
+  rejected: 'Rejected',
+};
+
+const STATUS_STYLES: Record<GiftStatus, string> = {
+  idea: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  planned: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-950/50 dark:text-indigo-300',
+  purchased: 'bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300',
+  given: 'bg-green-100 text-green-700 dark:bg-green-950/50 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-950/50 dark:text-red-300',
+};
+
+function formatPrice(price: number | null, currency: string) {
+  if (price === null) return null;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price);
+  } catch {
+    return `${price.toFixed(2)} ${currency}`;
+  }
+}
+
+interface GiftIdeasPanelProps {
+  profile: Profile;
+  // Saved notes of the profile, offered as links for new ideas
+  notes: Note[];
+  // Viewers of a shared profile see the ideas but can't change them
+  readOnly?: boolean;
+}
+
+export function GiftIdeasPanel({ profile, notes, readOnly = false }: GiftIdeasPanelProps) {
+  const [giftIdeas, setGiftIdeas] = useState<GiftIdea[]>([]);
+  const [occasions, setOccasions] = useState<Occasion[]>([]);
+  const [history, setHistory] = useState<GiftHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadGiftIdeas();
+  }, [profile.id]);
+
+  const loadGiftIdeas = async () => {
+    try {
+      setLoading(true);
+      const api = createApiClient();
+      const [loadedGiftIdeas, loadedOccasions, loadedHistory] = await Promise.all([
+        api.listGiftIdeas(profile.id),
+        api.listOccasions(profile.id),
+        api.listGiftHistory(profile.id),
+      ]);
+      setGiftIdeas(loadedGiftIdeas);
+      setOccasions(loadedOccasions);
+      setHistory(loadedHistory);
+    } catch (error) {
+      console.error('Failed to load gift ideas:', error);
+      toast.error('Failed to load gift ideas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createGiftIdea = async (request: CreateGiftIdeaRequest) => {
+    const giftIdea = await createApiClient().createGiftIdea(profile.id, request);
+    setGiftIdeas([...giftIdeas, giftIdea]);
+    toast.success('Gift idea added');
+    if (giftIdea.status === 'given') await loadHistory();
+  };
+
+  const updateStatus = async (giftId: string, status: GiftStatus) => {
+    try {
+      const updated = await createApiClient().updateGiftIdea(profile.id, giftId, { status });
+      setGiftIdeas(giftIdeas.map(gift => (gift.id === giftId ? updated : gift)));
+      if (status === 'given') await loadHistory();
+    } catch (error: any) {
+      console.error('Failed to update gift idea:', error);
+      toast.error(error.message || 'Failed to update gift idea');
+    }
+  };
+
+  // Marking a gift as given adds it to the history on the server
+  const loadHistory = async () => {
+    try {
+      setHistory(await createApiClient().listGiftHistory(profile.id));
+    } catch (error) {
+      console.error('Failed to load gift history:', error);
+    }
+  };
+
+  const deleteHistoryEntry = async (entryId: string) => {
+    try {
+      await createApiClient().deleteGiftHistoryEntry(profile.id, entryId);
+      setHistory(history.filter(entry => entry.id !== entryId));
+    } catch (error: any) {
+      console.error('Failed to delete gift history entry:', error);
+      toast.error(error.message || 'Failed to delete gift history entry');
+    }
+  };
+
+  const deleteGiftIdea = async (giftId: string) => {
+    try {
+      await createApiClient().deleteGiftIdea(profile.id, giftId);
+      setGiftIdeas(giftIdeas.filter(gift => gift.id !== giftId));
+    } catch (error: any) {
+      console.error('Failed to delete gift idea:', error);
+      toast.error(error.message || 'Failed to delete gift idea');
+    }
+  };
+
+  const noteText = (noteId: string) => notes.find(note => note.id === noteId)?.entry;
+  const occasionName = (occasionId: string | null) => occasions.find(o => o.id === occasionId)?.name;
+
+  if (loading) {
+    return (
+      <div className="p-8 text-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-indigo-200 border-t-indigo-600 dark:border-gray-700 dark:border-t-indigo-500"></div>
+        <p className="mt-4 text-gray-600 dark:text-gray-400">Loading gift ideas...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center p-4 bg-white dark:bg-slate-950 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800">
+        <h3 className="text-gray-900 dark:text-white">Gift Ideas for {profile.name}</h3>
+        {!readOnly && <AddGiftIdeaDialog profileId={profile.id} notes={notes} occasions={occasions} onCreate={createGiftIdea} />}
+      </div>
+
+      {giftIdeas.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-slate-950">
+          <Gift className="w-8 h-8 mx-auto mb-3 text-indigo-600 dark:text-indigo-400" />
+          <p className="text-gray-600 dark:text-gray-400">
+            {readOnly ? 'No gift ideas yet.' : 'No gift ideas yet. Click "Add Gift Idea" to record one.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {giftIdeas.map((gift) => (
+            <Card key={gift.id} className="shadow-sm border-gray-200 dark:border-gray-800 hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                <div className="flex-1 space-y-1">
+                  <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
+                    {gift.title}
+                    {gift.url && (
+                      <a href={gift.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-400">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                  </CardTitle>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {[formatPrice(gift.price, gift.currency), gift.occasion, occasionName(gift.occasionId)].filter(Boolean).join(' · ') || 'No price or occasion yet'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={gift.status} onValueChange={(value) => updateStatus(gift.id, value as GiftStatus)} disabled={readOnly}>
+                    <SelectTrigger className={`w-36 border-0 ${STATUS_STYLES[gift.status]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GIFT_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteGiftIdea(gift.id)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              {gift.noteIds.length > 0 && (
+                <CardContent className="flex flex-wrap gap-2">
+                  {gift.noteIds.map((noteId) => (
+                    <Badge key={noteId} variant="secondary" className="max-w-xs truncate">
+                      {noteText(noteId) || 'Note'}
+                    </Badge>
+                  ))}
+                </CardContent>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <Card className="shadow-sm border-gray-200 dark:border-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
+              <History className="h-4 w-4" />
+              Given Before
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100 dark:divide-gray-800">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">{entry.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {[entry.givenOn, entry.occasion, formatPrice(entry.price, entry.currency)].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                {!readOnly && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteHistoryEntry(entry.id)}
+                    className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+// Warning shown when an idea resembles something already given
+function PreviouslyGivenAlert({ matches }: { matches: PreviouslyGiven[] }) {
+  if (matches.length === 0) return null;
+  return (
+    <Alert className="border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Similar to a gift already given</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {matches.map((match) => (
+            <li key={match.id}>
+              {match.title} on {match.givenOn}
+              {match.occasion ? ` (${match.occasion})` : ''}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+interface AddGiftIdeaDialogProps {
+  profileId: string;
+  notes: Note[];
+  occasions: Occasion[];
+  onCreate: (request: CreateGiftIdeaRequest) => Promise<void>;
+}
+
+function AddGiftIdeaDialog({ profileId, notes, occasions, onCreate }: AddGiftIdeaDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [price, setPrice] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [occasion, setOccasion] = useState('');
+  const [occasionId, setOccasionId] = useState('none');
+  const [noteIds, setNoteIds] = useState<string[]>([]);
+  const [duplicates, setDuplicates] = useState<PreviouslyGiven[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Check the title against the gift history once the user stops typing
+  useEffect(() => {
+    const trimmed = title.trim();
+    if (!open || trimmed.length < 3) {
+      setDuplicates([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      createApiClient()
+        .findDuplicateGifts(profileId, trimmed)
+        .then(setDuplicates)
+        .catch((error) => console.error('Failed to check for duplicate gifts:', error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [title, open, profileId]);
+
+  const linkableNotes = notes.filter(note => note.entry.trim());
+
+  const toggleNote = (noteId: string, checked: boolean) => {
+    setNoteIds(checked ? [...noteIds, noteId] : noteIds.filter(id => id !== noteId));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      await onCreate({
+        title,
+        url: url.trim() || undefined,
+        price: price ? Number(price) : undefined,
+        currency: currency.trim().toUpperCase() || undefined,
+        occasion: occasion.trim() || undefined,
+        occasionId: occasionId === 'none' ? undefined : occasionId,
+        noteIds,
+      });
+      setTitle('');
+      setUrl('');
+      setPrice('');
+      setOccasion('');
+      setOccasionId('none');
+      setNoteIds([]);
+      setOpen(false);
+    } catch (error: any) {
+      console.error('Failed to create gift idea:', error);
+      toast.error(error.message || 'Failed to create gift idea');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2 bg-indigo-600 hover:bg-indigo-700">
+          <Plus className="h-4 w-4" />
+          Add Gift Idea
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Gift Idea</DialogTitle>
+          <DialogDescription>
+            Record a gift and link it to the notes that inspired it.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gift-title">Title</Label>
+            <Input
+              id="gift-title"
+              placeholder="e.g., Lego Technic Porsche 911"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+            />
+          </div>
+          <PreviouslyGivenAlert matches={duplicates} />
+          <div className="space-y-2">
+            <Label htmlFor="gift-url">Link (optional)</Label>
+            <Input
+              id="gift-url"
+              type="url"
+              placeholder="https://..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="gift-price">Price (optional)</Label>
+              <Input
+                id="gift-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div className="w-24 space-y-2">
+              <Label htmlFor="gift-currency">Currency</Label>
+              <Input
+                id="gift-currency"
+                maxLength={3}
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gift-occasion">Occasion (optional)</Label>
+            <Input
+              id="gift-occasion"
+              placeholder="e.g., Birthday 2026"
+              value={occasion}
+              onChange={(e) => setOccasion(e.target.value)}
+            />
+          </div>
+          {occasions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Counts toward budget of</Label>
+              <Select value={occasionId} onValueChange={setOccasionId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No specific occasion</SelectItem>
+                  {occasions.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {linkableNotes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Inspired by</Label>
+              <div className="max-h-40 overflow-auto space-y-2 rounded-md border border-gray-200 dark:border-gray-800 p-3">
+                {linkableNotes.map((note) => (
+                  <label key={note.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <Checkbox
+                      checked={noteIds.includes(note.id)}
+                      onCheckedChange={(checked) => toggleNote(note.id, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span className="line-clamp-2">{note.entry}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Add Gift Idea'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import type { Category, Note, NoteConflict } from '@shared/contracts';
+
+interface NoteConflictDialogProps {
+  conflicts: NoteConflict[];
+  notes: Note[];
+  categories: Category[];
+  // Resolved text per conflicting note id
+  onResolve: (entries: Record<string, string>) => void;
+  onDismiss: () => void;
+}
+
+// Shown when a save is refused because the same notes were saved from
+// another device in the meantime. Each note starts out as this device's
+// text; the user picks a side, keeps both or edits the result.
+export function NoteConflictDialog({ conflicts, notes, categories, onResolve, onDismiss }: NoteConflictDialogProps) {
+  const [entries, setEntries] = useState<Record<string, string>>({});
+
+  const local = (noteId: string) => notes.find(n => n.id === noteId);
+
+  useEffect(() => {
+    setEntries(Object.fromEntries(conflicts.map(c => [c.noteId, local(c.noteId)?.entry ?? c.server.entry])));
+  }, [conflicts]);
+
+  const setEntry = (noteId: string, entry: string) => setEntries({ ...entries, [noteId]: entry });
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Changed on another device</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? 'This note was' : `These ${conflicts.length} notes were`} saved somewhere else
+            after you started editing. Choose what to keep.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {conflicts.map(({ noteId, server }) => {
+            const mine = local(noteId)?.entry ?? '';
+            const category = categories.find(c => c.id === (local(noteId)?.categoryId ?? server.categoryId));
+            return (
+              <div key={noteId} className="space-y-3 border-b border-gray-200 dark:border-gray-800 pb-6 last:border-0 last:pb-0">
+                {category && <p className="text-sm text-gray-500 dark:text-gray-400">{category.name}</p>}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Your version</Label>
+                    <p className="text-sm whitespace-pre-wrap rounded-md border border-gray-200 dark:border-gray-800 p-3 bg-gray-50 dark:bg-slate-900">{mine || <em className="text-gray-400">Empty</em>}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Other device's version</Label>
+                    <p className="text-sm whitespace-pre-wrap rounded-md border border-gray-200 dark:border-gray-800 p-3 bg-gray-50 dark:bg-slate-900">{server.entry || <em className="text-gray-400">Empty</em>}</p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setEntry(noteId, mine)}>
+                    Keep mine
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setEntry(noteId, server.entry)}>
+                    Use theirs
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setEntry(noteId, [mine, server.entry].filter(Boolean).join('\n\n'))}>
+                    Keep both
+                  </Button>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`conflict-${noteId}`}>Result</Label>
+                  <Textarea
+                    id={`conflict-${noteId}`}
+                    value={entries[noteId] ?? ''}
+                    onChange={(e) => setEntry(noteId, e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={onDismiss}>
+            Decide later
+          </Button>
+          <Button onClick={() => onResolve(entries)} className="bg-indigo-600 hover:bg-indigo-700">
+            Save resolution
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
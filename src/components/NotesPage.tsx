@@ -1,70 +1,143 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { ArrowLeft, Plus, Trash2, Save } from 'lucide-react';
+import { AlertCircle, ArrowLeft, CalendarDays, Check, Circle, Gift, GripVertical, Loader2, NotebookPen, Pencil, Plus, Trash2, Save, Users } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
-import { projectId } from '../utils/supabase/info';
+import { GiftIdeasPanel } from './GiftIdeasPanel';
+import { OccasionsPanel } from './OccasionsPanel';
+import { NoteConflictDialog } from './NoteConflictDialog';
+import { ApiError, createApiClient } from '../utils/api/client';
+import { loadNotesDraft, mergeNotesDraft, saveNotesDraft } from '../utils/noteDrafts';
+import { cacheNotes, isNetworkError, loadCachedNotes, queueMutation, useOnlineStatus, type CachedNotes } from '../utils/offline';
+import { useProfileChannel } from '../utils/realtime';
+import type { Category, CategoryChange, Note, NoteChange, NoteConflict, Profile, ProfilePresence } from '@shared/contracts';
 
-interface Profile {
-  id: string;
-  name: string;
-  avatar?: string;
-  description: string;
-}
+// Quiet time after the last edit before changes are saved automatically
+const AUTOSAVE_DELAY_MS = 1500;
+
+type NoteSaveStatus = 'saved' | 'pending' | 'saving' | 'failed';
 
-interface Category {
-  id: string;
-  name: string;
+// Saved categories in tab order; ones not saved yet keep their place at the end
+const byPosition = (categories: Category[]) =>
+  [...categories].sort((a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER));
+
+// "Being edited on your phone", "Also open on 2 other sessions", ...
+function presenceText(others: ProfilePresence[]) {
+  const editing = others.filter(session => session.editing);
+  const shown = editing.length > 0 ? editing : others;
+  const where = shown.length === 1 ? `your ${shown[0].device}` : `${shown.length} other sessions`;
+  return editing.length > 0 ? `Being edited on ${where}` : `Also open on ${where}`;
 }
 
-interface Note {
-  id: string;
-  entry: string;
-  categoryId: string;
+function NoteStatusIndicator({ status }: { status: NoteSaveStatus }) {
+  switch (status) {
+    case 'saved':
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+          <Check className="h-3 w-3" /> Saved
+        </span>
+      );
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <Loader2 className="h-3 w-3 animate-spin" /> Saving...
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="h-3 w-3" /> Not saved
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+          <Circle className="h-2 w-2 fill-current" /> Unsaved changes
+        </span>
+      );
+  }
 }
 
 interface NotesPageProps {
   profile: Profile;
   onBack: () => void;
-  accessToken: string;
 }
 
-export function NotesPage({ profile, onBack, accessToken }: NotesPageProps) {
+export function NotesPage({ profile, onBack }: NotesPageProps) {
   const [categories, setCategories] = useState<Category[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [activeCategory, setActiveCategory] = useState<string>('');
   const [newCategoryName, setNewCategoryName] = useState('');
+  // Categories that exist on the server; new ones are only created on Save
+  const [savedCategoryIds, setSavedCategoryIds] = useState<Set<string>>(new Set());
+  const [editingCategory, setEditingCategory] = useState<{ id: string; name: string } | null>(null);
+  const [draggedCategory, setDraggedCategory] = useState<string | null>(null);
+  // Set by Escape so the blur that follows doesn't save the edit
+  const cancelRename = useRef(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  // What the server has for each note; a note differing from it is dirty
+  const [savedNotes, setSavedNotes] = useState<Record<string, Pick<Note, 'entry' | 'categoryId'>>>({});
+  const [savingNoteIds, setSavingNoteIds] = useState<Set<string>>(new Set());
+  const [failedNoteIds, setFailedNoteIds] = useState<Set<string>>(new Set());
+  // Set when an autosave fails, so it isn't retried in a loop; the next edit
+  // (or Save now) tries again
+  const [autosavePaused, setAutosavePaused] = useState(false);
+  // Notes the server refused to overwrite because another device saved them
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const online = useOnlineStatus();
+  // Viewers of a shared profile can read everything but change nothing
+  const readOnly = profile.role === 'viewer';
 
   useEffect(() => {
     loadData();
   }, [profile.id]);
 
+  // Coming back online retries whatever autosave gave up on
+  useEffect(() => {
+    if (online) setAutosavePaused(false);
+  }, [online]);
+
   const loadData = async () => {
     try {
       setLoading(true);
-      const [categoriesRes, notesRes] = await Promise.all([
-        fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profile.id}/categories`, {
-          headers: { 'Authorization': `Bearer ${accessToken}` },
-        }),
-        fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profile.id}/notes`, {
-          headers: { 'Authorization': `Bearer ${accessToken}` },
-        }),
-      ]);
+      let loaded: CachedNotes;
+      try {
+        const api = createApiClient();
+        const [categories, notes] = await Promise.all([
+          api.listCategories(profile.id),
+          api.listNotes(profile.id),
+        ]);
+        loaded = { categories, notes };
+        cacheNotes(profile.id, loaded);
+      } catch (error) {
+        const cached = isNetworkError(error) ? loadCachedNotes(profile.id) : null;
+        if (!cached) throw error;
+        loaded = cached;
+        toast.info("You're offline. Showing notes saved on this device");
+      }
+      const { categories: loadedCategories, notes: loadedNotes } = loaded;
 
-      const categoriesData = await categoriesRes.json();
-      const notesData = await notesRes.json();
+      setSavedCategoryIds(new Set(loadedCategories.map(c => c.id)));
+      setSavedNotes(Object.fromEntries(loadedNotes.map(n => [n.id, { entry: n.entry, categoryId: n.categoryId }])));
 
-      setCategories(categoriesData.categories || []);
-      setNotes(notesData.notes || []);
+      // Edits that never reached the server, e.g. before a reload
+      const draft = loadNotesDraft(profile.id);
+      const merged = draft
+        ? mergeNotesDraft(loadedCategories, loadedNotes, draft)
+        : { categories: loadedCategories, notes: loadedNotes, restored: 0 };
+      setCategories(merged.categories);
+      setNotes(merged.notes);
+      if (merged.restored > 0) {
+        toast.info('Restored unsaved changes from this device');
+      }
 
-      if (categoriesData.categories?.length > 0 && !activeCategory) {
-        setActiveCategory(categoriesData.categories[0].id);
+      if (merged.categories.length > 0 && !activeCategory) {
+        setActiveCategory(merged.categories[0].id);
       }
     } catch (error) {
       console.error('Failed to load data:', error);
@@ -85,13 +158,91 @@ export function NotesPage({ profile, onBack, accessToken }: NotesPageProps) {
     setCategories([...categories, newCategory]);
     setActiveCategory(newCategory.id);
     setNewCategoryName('');
+    setAutosavePaused(false);
   };
 
-  const deleteCategory = (categoryId: string) => {
-    setCategories(categories.filter(c => c.id !== categoryId));
+  const deleteCategory = async (categoryId: string) => {
+    const category = categories.find(c => c.id === categoryId);
+    const noteCount = notes.filter(n => n.categoryId === categoryId).length;
+
+    if (savedCategoryIds.has(categoryId)) {
+      if (!confirm(`Delete "${category?.name}" and its ${noteCount} ${noteCount === 1 ? 'entry' : 'entries'}? This can't be undone.`)) {
+        return;
+      }
+      try {
+        await createApiClient().deleteCategory(profile.id, categoryId);
+        toast.success(`Category "${category?.name}" deleted`);
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          queueMutation({ kind: 'deleteCategory', profileId: profile.id, categoryId });
+          toast.info(`"${category?.name}" will be deleted when you're back online`);
+        } else {
+          console.error('Failed to delete category:', error);
+          toast.error(error.message || 'Failed to delete category');
+          return;
+        }
+      }
+    }
+
+    const remaining = categories.filter(c => c.id !== categoryId);
+    setCategories(remaining);
     setNotes(notes.filter(n => n.categoryId !== categoryId));
-    if (activeCategory === categoryId && categories.length > 0) {
-      setActiveCategory(categories[0].id);
+    if (activeCategory === categoryId) {
+      setActiveCategory(remaining[0]?.id ?? '');
+    }
+  };
+
+  const startRename = (category: Category) => {
+    if (readOnly) return;
+    cancelRename.current = false;
+    setEditingCategory({ id: category.id, name: category.name });
+  };
+
+  const renameCategory = async (id: string, name: string) => {
+    setEditingCategory(null);
+    if (cancelRename.current) return;
+    cancelRename.current = true;
+    const previous = categories.find(c => c.id === id);
+    if (!previous || !name.trim() || name.trim() === previous.name) return;
+
+    setCategories(categories.map(c => (c.id === id ? { ...c, name: name.trim() } : c)));
+    if (!savedCategoryIds.has(id)) return;
+
+    try {
+      await createApiClient().renameCategory(profile.id, id, { name });
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        queueMutation({ kind: 'renameCategory', profileId: profile.id, categoryId: id, name });
+        return;
+      }
+      console.error('Failed to rename category:', error);
+      toast.error(error.message || 'Failed to rename category');
+      setCategories(categories => categories.map(c => (c.id === id ? previous : c)));
+    }
+  };
+
+  // Drops the dragged tab at the position of the tab it was dropped on
+  const moveCategory = async (targetId: string) => {
+    const from = categories.findIndex(c => c.id === draggedCategory);
+    const to = categories.findIndex(c => c.id === targetId);
+    setDraggedCategory(null);
+    if (from === -1 || to === -1 || from === to) return;
+
+    const previous = categories;
+    const reordered = [...categories];
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+    setCategories(reordered.map((c, position) => (savedCategoryIds.has(c.id) ? { ...c, position } : c)));
+
+    try {
+      await createApiClient().reorderCategories(profile.id, reordered.map(c => c.id));
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        queueMutation({ kind: 'reorderCategories', profileId: profile.id, categoryIds: reordered.map(c => c.id) });
+        return;
+      }
+      console.error('Failed to reorder categories:', error);
+      toast.error(error.message || 'Failed to reorder categories');
+      setCategories(previous);
     }
   };
 
@@ -105,59 +256,264 @@ export function NotesPage({ profile, onBack, accessToken }: NotesPageProps) {
     };
     
     setNotes([...notes, newNote]);
+    setAutosavePaused(false);
   };
 
   const updateNote = (noteId: string, field: 'entry', value: string) => {
     setNotes(notes.map(note => 
       note.id === noteId ? { ...note, [field]: value } : note
     ));
+    setAutosavePaused(false);
   };
 
   const deleteNote = async (noteId: string) => {
-    try {
-      // Try to delete from server if it exists
-      await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profile.id}/notes/${noteId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${accessToken}` },
-      });
-    } catch (error) {
-      console.log('Note may not exist on server yet:', error);
+    if (savedNotes[noteId]) {
+      try {
+        await createApiClient().deleteNote(profile.id, noteId);
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          queueMutation({ kind: 'deleteNote', profileId: profile.id, noteId });
+        } else {
+          console.error('Failed to delete note:', error);
+          toast.error(error.message || 'Failed to delete note');
+          return;
+        }
+      }
     }
-    
-    setNotes(notes.filter(n => n.id !== noteId));
+
+    setNotes(notes => notes.filter(n => n.id !== noteId));
+  };
+
+  const noteStatus = (note: Note): NoteSaveStatus => {
+    if (savingNoteIds.has(note.id)) return 'saving';
+    const saved = savedNotes[note.id];
+    if (saved && saved.entry === note.entry && saved.categoryId === note.categoryId) return 'saved';
+    return failedNoteIds.has(note.id) ? 'failed' : 'pending';
   };
 
-  const handleSubmit = async () => {
+  // A new note that is still blank has nothing worth saving yet
+  const dirtyNotes = notes.filter(
+    n => ['pending', 'failed'].includes(noteStatus(n)) && (savedNotes[n.id] || n.entry.trim()),
+  );
+  const unsavedCategories = categories
+    .map((category, position) => ({ ...category, position }))
+    .filter(c => !savedCategoryIds.has(c.id));
+  const hasChanges = dirtyNotes.length > 0 || unsavedCategories.length > 0;
+
+  // Sends only new categories and changed notes; the server re-embeds only
+  // notes whose text changed. Notes it already has carry the updatedAt they
+  // were loaded with, so edits from another device aren't overwritten (409).
+  // Resolves to whether everything was saved.
+  const handleSubmit = async ({ manual = false } = {}) => {
+    if (!hasChanges) return true;
+    const sentNotes = dirtyNotes;
+    const sentIds = sentNotes.map(n => n.id);
+
     try {
       setSaving(true);
-      
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profile.id}/submit`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ categories, notes }),
+      setSavingNoteIds(new Set(sentIds));
+
+      const result = await createApiClient().submitNotes(profile.id, {
+        categories: unsavedCategories,
+        notes: sentNotes.map(n => ({ ...n, baseUpdatedAt: savedNotes[n.id] ? n.updatedAt : undefined })),
       });
 
-      const data = await response.json();
-      
-      if (!response.ok) {
-        console.error('Submit error response:', data);
-        throw new Error(data.error || 'Failed to save');
-      }
+      setSavedNotes(saved => ({
+        ...saved,
+        ...Object.fromEntries(sentNotes.map(n => [n.id, { entry: n.entry, categoryId: n.categoryId }])),
+      }));
+      setNotes(notes => notes.map(n => (sentIds.includes(n.id) ? { ...n, updatedAt: result.updatedAt } : n)));
+      setFailedNoteIds(failed => new Set([...failed].filter(id => !sentIds.includes(id))));
+      setSavedCategoryIds(saved => new Set([...saved, ...unsavedCategories.map(c => c.id)]));
+      setAutosavePaused(false);
 
-      toast.success('Notes saved and converted to vector embeddings!');
+      if (manual) {
+        toast.success(
+          result.embedded > 0
+            ? `Saved ${sentNotes.length} ${sentNotes.length === 1 ? 'note' : 'notes'}, ${result.embedded} embedded`
+            : 'Changes saved',
+        );
+      }
+      return true;
     } catch (error: any) {
       console.error('Failed to submit:', error);
-      toast.error(error.message || 'Failed to save notes');
+      setFailedNoteIds(failed => new Set([...failed, ...sentIds]));
+      setAutosavePaused(true);
+      if (error instanceof ApiError && error.conflicts) {
+        setConflicts(error.conflicts);
+      } else if (isNetworkError(error)) {
+        if (manual) toast.info("You're offline. Changes are kept on this device and saved when you reconnect");
+      } else {
+        toast.error(error.message || 'Failed to save notes');
+      }
+      return false;
     } finally {
+      setSavingNoteIds(new Set());
       setSaving(false);
     }
   };
 
+  // Autosave once editing pauses; a newer edit restarts the wait
+  useEffect(() => {
+    if (readOnly || loading || saving || autosavePaused || !hasChanges) return;
+    const timer = setTimeout(() => handleSubmit(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [notes, categories, savedNotes, savedCategoryIds, loading, saving, autosavePaused]);
+
+  // The merged text becomes an edit on top of the other device's version:
+  // unchanged from it means nothing to save, anything else is saved next
+  const resolveConflicts = (entries: Record<string, string>) => {
+    const servers = new Map(conflicts.map(c => [c.noteId, c.server]));
+    setNotes(notes => notes.map(n => {
+      const server = servers.get(n.id);
+      return server ? { ...n, entry: entries[n.id] ?? n.entry, updatedAt: server.updatedAt } : n;
+    }));
+    setSavedNotes(saved => ({
+      ...saved,
+      ...Object.fromEntries(conflicts.map(c => [c.noteId, { entry: c.server.entry, categoryId: c.server.categoryId }])),
+    }));
+    setFailedNoteIds(failed => new Set([...failed].filter(id => !servers.has(id))));
+    setConflicts([]);
+    setAutosavePaused(false);
+  };
+
+  // Keep unsaved edits on this device until they reach the server, and the
+  // saved state as the offline copy
+  useEffect(() => {
+    if (loading) return;
+    saveNotesDraft(profile.id, { categories: unsavedCategories, notes: dirtyNotes });
+    cacheNotes(profile.id, {
+      categories: categories.filter(c => savedCategoryIds.has(c.id)),
+      notes: notes.filter(n => savedNotes[n.id]).map(n => ({ ...n, ...savedNotes[n.id] })),
+    });
+  }, [notes, categories, savedNotes, savedCategoryIds, loading]);
+
+  // Latest state for the realtime handlers below, which run outside render
+  const latest = useRef({ notes, categories, savedNotes });
+  latest.current = { notes, categories, savedNotes };
+
+  // A note changed elsewhere (or this session's own save, echoed back). Clean
+  // notes follow the server; a note with edits here keeps them, and saving
+  // them then reports the conflict.
+  const applyNoteChange = (change: NoteChange) => {
+    const noteId = change.record.id;
+    const local = latest.current.notes.find(n => n.id === noteId);
+    const saved = latest.current.savedNotes[noteId];
+    const clean = !!local && !!saved && saved.entry === local.entry && saved.categoryId === local.categoryId;
+
+    if (change.op === 'DELETE') {
+      // Edits made here bring the note back on the next save
+      if (!local || clean) setNotes(notes => notes.filter(n => n.id !== noteId));
+      setSavedNotes(({ [noteId]: _deleted, ...saved }) => saved);
+      return;
+    }
+
+    const { record } = change;
+    // An echo of an older save arriving after a newer one
+    if (local?.updatedAt && record.updatedAt && Date.parse(record.updatedAt) < Date.parse(local.updatedAt)) return;
+
+    setSavedNotes(saved => ({ ...saved, [record.id]: { entry: record.entry, categoryId: record.categoryId } }));
+    if (!local) {
+      setNotes(notes => (notes.some(n => n.id === record.id) ? notes : [...notes, record]));
+    } else if (clean || (local.entry === record.entry && local.categoryId === record.categoryId)) {
+      setNotes(notes => notes.map(n => (n.id === record.id ? { ...n, ...record } : n)));
+    }
+  };
+
+  const applyCategoryChange = (change: CategoryChange) => {
+    if (change.op === 'DELETE') {
+      // The server deleted its notes too, so edits to them can't be saved
+      const categoryId = change.record.id;
+      setCategories(categories => categories.filter(c => c.id !== categoryId));
+      setNotes(notes => notes.filter(n => n.categoryId !== categoryId));
+      setSavedCategoryIds(ids => new Set([...ids].filter(id => id !== categoryId)));
+      setActiveCategory(active =>
+        active === categoryId ? latest.current.categories.find(c => c.id !== categoryId)?.id ?? '' : active,
+      );
+      return;
+    }
+
+    const { record } = change;
+    setCategories(categories =>
+      byPosition(
+        categories.some(c => c.id === record.id)
+          ? categories.map(c => (c.id === record.id ? { ...c, ...record } : c))
+          : [...categories, record],
+      ),
+    );
+    setSavedCategoryIds(ids => (ids.has(record.id) ? ids : new Set([...ids, record.id])));
+    setActiveCategory(active => active || record.id);
+  };
+
+  // Catches up after a dropped connection by replaying the server's current
+  // state as changes, plus deletes for what it no longer has
+  const resync = async () => {
+    try {
+      const api = createApiClient();
+      const [serverCategories, serverNotes] = await Promise.all([
+        api.listCategories(profile.id),
+        api.listNotes(profile.id),
+      ]);
+      const categoryIds = new Set(serverCategories.map(c => c.id));
+      const noteIds = new Set(serverNotes.map(n => n.id));
+
+      serverCategories.forEach(record => applyCategoryChange({ op: 'UPDATE', record }));
+      categories
+        .filter(c => savedCategoryIds.has(c.id) && !categoryIds.has(c.id))
+        .forEach(c => applyCategoryChange({ op: 'DELETE', record: { id: c.id, profileId: profile.id } }));
+      serverNotes.forEach(record => applyNoteChange({ op: 'UPDATE', record }));
+      Object.entries(savedNotes)
+        .filter(([id]) => !noteIds.has(id))
+        .forEach(([id, saved]) => applyNoteChange({ op: 'DELETE', record: { id, categoryId: saved.categoryId, profileId: profile.id } }));
+    } catch (error) {
+      console.log('Could not refresh notes after reconnecting:', error);
+    }
+  };
+
+  const otherSessions = useProfileChannel(profile.id, hasChanges || saving, {
+    onCategory: applyCategoryChange,
+    onNote: applyNoteChange,
+    onResync: resync,
+  });
+
+  // The browser's own prompt when closing or reloading with unsaved edits
+  useEffect(() => {
+    if (!hasChanges && !saving) return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [hasChanges, saving]);
+
+  // Saves pending edits before leaving; if that fails the user decides
+  const handleBack = async () => {
+    if (hasChanges && !(await handleSubmit())) {
+      const leave = confirm(
+        "Some changes couldn't be saved. They are kept on this device and restored when you open this profile again. Leave anyway?",
+      );
+      if (!leave) return;
+    }
+    onBack();
+  };
+
   const categoryNotes = notes.filter(n => n.categoryId === activeCategory);
 
+  const saveStatusText = readOnly
+    ? `View only${profile.sharedBy ? `, shared by ${profile.sharedBy}` : ''}`
+    : saving
+    ? 'Saving...'
+    : !online
+      ? hasChanges ? 'Offline, changes kept on this device' : 'Offline'
+      : conflicts.length > 0
+        ? 'Changed on another device'
+        : failedNoteIds.size > 0 && hasChanges
+          ? "Some changes couldn't be saved"
+          : hasChanges
+            ? 'Unsaved changes'
+            : 'All changes saved';
+
   if (loading) {
     return (
       <div className="p-8 text-center">
@@ -171,7 +527,7 @@ export function NotesPage({ profile, onBack, accessToken }: NotesPageProps) {
     <div className="h-screen flex flex-col">
       <div className="border-b border-gray-200 dark:border-gray-800 px-8 py-5 flex items-center justify-between bg-white dark:bg-slate-950 shadow-sm">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="sm" onClick={onBack} className="gap-2">
+          <Button variant="ghost" size="sm" onClick={handleBack} className="gap-2">
             <ArrowLeft className="h-4 w-4" />
             Back
           </Button>
@@ -180,125 +536,239 @@ export function NotesPage({ profile, onBack, accessToken }: NotesPageProps) {
             <h1 className="text-gray-900 dark:text-white">{profile.name}'s Notes</h1>
             <p className="text-sm text-gray-600 dark:text-gray-400">{profile.description}</p>
           </div>
+          {otherSessions.length > 0 && (
+            <span
+              className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-xs ${
+                otherSessions.some(session => session.editing)
+                  ? 'bg-amber-50 text-amber-700 dark:bg-amber-950/30 dark:text-amber-400'
+                  : 'bg-indigo-50 text-indigo-700 dark:bg-indigo-950/30 dark:text-indigo-400'
+              }`}
+              aria-live="polite"
+            >
+              <Users className="h-3 w-3" />
+              {presenceText(otherSessions)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-500 dark:text-gray-400" aria-live="polite">
+            {saveStatusText}
+          </span>
+          {!readOnly && (
+            <Button 
+              onClick={() => handleSubmit({ manual: true })} 
+              disabled={saving || !hasChanges || !online} 
+              className="gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 shadow-md"
+            >
+              <Save className="h-4 w-4" />
+              Save now
+            </Button>
+          )}
         </div>
-        <Button 
-          onClick={handleSubmit} 
-          disabled={saving} 
-          className="gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 shadow-md"
-        >
-          <Save className="h-4 w-4" />
-          {saving ? 'Saving...' : 'Submit & Generate Embeddings'}
-        </Button>
       </div>
 
       <div className="flex-1 overflow-auto p-8 bg-gray-50 dark:bg-slate-900">
         <div className="max-w-5xl mx-auto">
-          <div className="mb-6 p-6 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800">
-            <Label className="mb-3 block text-gray-700 dark:text-gray-300">Create New Category</Label>
-            <div className="flex gap-3">
-              <Input
-                placeholder="Enter category name (e.g., Favorite Colors, Hobbies)..."
-                value={newCategoryName}
-                onChange={(e) => setNewCategoryName(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && addCategory()}
-                className="flex-1"
-              />
-              <Button onClick={addCategory} className="gap-2 bg-indigo-600 hover:bg-indigo-700">
-                <Plus className="h-4 w-4" />
-                Add Category
-              </Button>
-            </div>
-          </div>
+          <Tabs defaultValue="notes">
+            <TabsList className="mb-6 bg-white dark:bg-slate-950 border border-gray-200 dark:border-gray-800 p-1">
+              <TabsTrigger value="notes" className="gap-2 data-[state=active]:bg-indigo-50 dark:data-[state=active]:bg-indigo-950/30 data-[state=active]:text-indigo-700 dark:data-[state=active]:text-indigo-400">
+                <NotebookPen className="h-4 w-4" />
+                Notes
+              </TabsTrigger>
+              <TabsTrigger value="gifts" className="gap-2 data-[state=active]:bg-indigo-50 dark:data-[state=active]:bg-indigo-950/30 data-[state=active]:text-indigo-700 dark:data-[state=active]:text-indigo-400">
+                <Gift className="h-4 w-4" />
+                Gift Ideas
+              </TabsTrigger>
+              <TabsTrigger value="occasions" className="gap-2 data-[state=active]:bg-indigo-50 dark:data-[state=active]:bg-indigo-950/30 data-[state=active]:text-indigo-700 dark:data-[state=active]:text-indigo-400">
+                <CalendarDays className="h-4 w-4" />
+                Occasions
+              </TabsTrigger>
+            </TabsList>
 
-          {categories.length === 0 ? (
-            <div className="text-center py-20 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800">
-              <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 mb-4">
-                <Plus className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
-              </div>
-              <p className="text-gray-600 dark:text-gray-400 mb-2">
-                No categories yet
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-500">
-                Create a category above to start organizing your notes
-              </p>
-            </div>
-          ) : (
-            <Tabs value={activeCategory} onValueChange={setActiveCategory}>
-              <div className="mb-6">
-                <TabsList className="bg-white dark:bg-slate-950 border border-gray-200 dark:border-gray-800 p-1">
-                  {categories.map((category) => (
-                    <TabsTrigger 
-                      key={category.id} 
-                      value={category.id} 
-                      className="relative group data-[state=active]:bg-indigo-50 dark:data-[state=active]:bg-indigo-950/30 data-[state=active]:text-indigo-700 dark:data-[state=active]:text-indigo-400"
-                    >
-                      {category.name}
-                      <span
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteCategory(category.id);
-                        }}
-                        className="ml-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </span>
-                    </TabsTrigger>
-                  ))}
-                </TabsList>
-              </div>
-
-              {categories.map((category) => (
-                <TabsContent key={category.id} value={category.id} className="space-y-4">
-                  <div className="flex justify-between items-center mb-4 p-4 bg-white dark:bg-slate-950 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800">
-                    <h3 className="text-gray-900 dark:text-white">{category.name} Entries</h3>
-                    <Button onClick={addNote} size="sm" className="gap-2 bg-indigo-600 hover:bg-indigo-700">
+            <TabsContent value="notes">
+              {!readOnly && (
+                <div className="mb-6 p-6 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800">
+                  <Label className="mb-3 block text-gray-700 dark:text-gray-300">Create New Category</Label>
+                  <div className="flex gap-3">
+                    <Input
+                      placeholder="Enter category name (e.g., Favorite Colors, Hobbies)..."
+                      value={newCategoryName}
+                      onChange={(e) => setNewCategoryName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addCategory()}
+                      className="flex-1"
+                    />
+                    <Button onClick={addCategory} className="gap-2 bg-indigo-600 hover:bg-indigo-700">
                       <Plus className="h-4 w-4" />
-                      Add Entry
+                      Add Category
                     </Button>
                   </div>
+                </div>
+              )}
 
-                  {categoryNotes.length === 0 ? (
-                    <div className="text-center py-12 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-slate-950">
-                      <p className="text-gray-600 dark:text-gray-400">
-                        No entries yet. Click "Add Entry" to create one.
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="space-y-4">
-                      {categoryNotes.map((note) => (
-                        <Card key={note.id} className="shadow-sm border-gray-200 dark:border-gray-800 hover:shadow-md transition-shadow">
-                          <CardHeader className="flex flex-row items-start justify-between space-y-0">
-                            <div className="flex-1 space-y-4">
-                              <div className="space-y-2">
-                                <Label>Entry</Label>
-                                <Textarea
-                                  placeholder="Add details... (e.g., Blue, Red, Green)"
-                                  value={note.entry}
-                                  onChange={(e) => updateNote(note.id, 'entry', e.target.value)}
-                                  rows={3}
-                                  className="resize-none"
-                                />
-                              </div>
-                            </div>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => deleteNote(note.id)}
-                              className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30 ml-4"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </CardHeader>
-                        </Card>
+              {categories.length === 0 ? (
+                <div className="text-center py-20 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800">
+                  <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 mb-4">
+                    <Plus className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400 mb-2">
+                    No categories yet
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-500">
+                    {readOnly ? 'Nothing has been written down here yet' : 'Create a category above to start organizing your notes'}
+                  </p>
+                </div>
+              ) : (
+                <Tabs value={activeCategory} onValueChange={setActiveCategory}>
+                  <div className="mb-6">
+                    <TabsList className="bg-white dark:bg-slate-950 border border-gray-200 dark:border-gray-800 p-1">
+                      {categories.map((category) => (
+                        <TabsTrigger 
+                          key={category.id} 
+                          value={category.id} 
+                          draggable={!readOnly && editingCategory?.id !== category.id}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedCategory(category.id);
+                          }}
+                          onDragOver={(e) => draggedCategory && e.preventDefault()}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            moveCategory(category.id);
+                          }}
+                          onDragEnd={() => setDraggedCategory(null)}
+                          onDoubleClick={() => startRename(category)}
+                          className={`relative group data-[state=active]:bg-indigo-50 dark:data-[state=active]:bg-indigo-950/30 data-[state=active]:text-indigo-700 dark:data-[state=active]:text-indigo-400 ${draggedCategory === category.id ? 'opacity-50' : ''}`}
+                        >
+                          {!readOnly && <GripVertical className="h-3 w-3 mr-1 text-gray-400 cursor-grab" />}
+                          {editingCategory?.id === category.id ? (
+                            <input
+                              autoFocus
+                              value={editingCategory.name}
+                              onChange={(e) => setEditingCategory({ id: category.id, name: e.target.value })}
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => {
+                                e.stopPropagation();
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                                if (e.key === 'Escape') {
+                                  cancelRename.current = true;
+                                  setEditingCategory(null);
+                                }
+                              }}
+                              onBlur={(e) => renameCategory(category.id, e.currentTarget.value)}
+                              maxLength={100}
+                              aria-label="Category name"
+                              className="w-28 bg-transparent border-b border-indigo-400 outline-none"
+                            />
+                          ) : (
+                            category.name
+                          )}
+                          {!readOnly && (
+                            <>
+                              <span
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  startRename(category);
+                                }}
+                                title="Rename"
+                                className="ml-2 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </span>
+                              <span
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteCategory(category.id);
+                                }}
+                                title="Delete"
+                                className="ml-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </span>
+                            </>
+                          )}
+                        </TabsTrigger>
                       ))}
-                    </div>
-                  )}
-                </TabsContent>
-              ))}
-            </Tabs>
-          )}
+                    </TabsList>
+                  </div>
+
+                  {categories.map((category) => (
+                    <TabsContent key={category.id} value={category.id} className="space-y-4">
+                      <div className="flex justify-between items-center mb-4 p-4 bg-white dark:bg-slate-950 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800">
+                        <h3 className="text-gray-900 dark:text-white">{category.name} Entries</h3>
+                        {!readOnly && (
+                          <Button onClick={addNote} size="sm" className="gap-2 bg-indigo-600 hover:bg-indigo-700">
+                            <Plus className="h-4 w-4" />
+                            Add Entry
+                          </Button>
+                        )}
+                      </div>
+
+                      {categoryNotes.length === 0 ? (
+                        <div className="text-center py-12 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-slate-950">
+                          <p className="text-gray-600 dark:text-gray-400">
+                            {readOnly ? 'No entries yet.' : 'No entries yet. Click "Add Entry" to create one.'}
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-4">
+                          {categoryNotes.map((note) => (
+                            <Card key={note.id} className="shadow-sm border-gray-200 dark:border-gray-800 hover:shadow-md transition-shadow">
+                              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                                <div className="flex-1 space-y-4">
+                                  <div className="space-y-2">
+                                    <div className="flex items-center justify-between">
+                                      <Label>Entry</Label>
+                                      <NoteStatusIndicator status={noteStatus(note)} />
+                                    </div>
+                                    <Textarea
+                                      placeholder="Add details... (e.g., Blue, Red, Green)"
+                                      value={note.entry}
+                                      onChange={(e) => updateNote(note.id, 'entry', e.target.value)}
+                                      readOnly={readOnly}
+                                      rows={3}
+                                      className="resize-none"
+                                    />
+                                  </div>
+                                </div>
+                                {!readOnly && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => deleteNote(note.id)}
+                                    className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30 ml-4"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </CardHeader>
+                            </Card>
+                          ))}
+                        </div>
+                      )}
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              )}
+            </TabsContent>
+
+            <TabsContent value="gifts">
+              <GiftIdeasPanel profile={profile} notes={notes} readOnly={readOnly} />
+            </TabsContent>
+
+            <TabsContent value="occasions">
+              <OccasionsPanel profile={profile} readOnly={readOnly} />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
+
+      <NoteConflictDialog
+        conflicts={conflicts}
+        notes={notes}
+        categories={categories}
+        onResolve={resolveConflicts}
+        onDismiss={() => setConflicts([])}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ScrollArea } from './ui/scroll-area';
+import { Button } from './ui/button';
+import { Bell, CalendarDays } from 'lucide-react';
+import type { Reminder } from '@shared/contracts';
+
+interface NotificationCenterProps {
+  reminders: Reminder[];
+  onMarkRead: (ids: string[]) => void;
+}
+
+export function NotificationCenter({ reminders, onMarkRead }: NotificationCenterProps) {
+  const unreadIds = reminders.filter(r => !r.readAt).map(r => r.id);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start h-11 hover:bg-gray-100 dark:hover:bg-slate-900">
+          <Bell className="mr-3 h-5 w-5" />
+          Notifications
+          {unreadIds.length > 0 && (
+            <span className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-indigo-600 text-white text-xs flex items-center justify-center">
+              {unreadIds.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+          <h4 className="text-gray-900 dark:text-white">Reminders</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadIds.length === 0}
+            onClick={() => onMarkRead(unreadIds)}
+            className="h-7 text-xs text-indigo-600 dark:text-indigo-400"
+          >
+            Mark all read
+          </Button>
+        </div>
+        {reminders.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No reminders yet. Add occasions to a profile to get notified ahead of time.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="divide-y divide-gray-100 dark:divide-gray-800">
+              {reminders.map((reminder) => (
+                <button
+                  key={reminder.id}
+                  onClick={() => !reminder.readAt && onMarkRead([reminder.id])}
+                  className={`w-full text-left flex gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-slate-900 ${
+                    reminder.readAt ? 'opacity-60' : ''
+                  }`}
+                >
+                  <CalendarDays className="h-4 w-4 mt-0.5 shrink-0 text-indigo-600 dark:text-indigo-400" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-900 dark:text-white">{reminder.title}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{reminder.message}</p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{reminder.occasionDate}</p>
+                  </div>
+                  {!reminder.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-indigo-600" />}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
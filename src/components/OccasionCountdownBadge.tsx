@@ -0,0 +1,29 @@
+import { Badge } from './ui/badge';
+import { CalendarDays } from 'lucide-react';
+import type { UpcomingOccasion } from '@shared/contracts';
+
+export function formatCountdown(daysUntil: number) {
+  if (daysUntil === 0) return 'today';
+  if (daysUntil === 1) return 'tomorrow';
+  return `in ${daysUntil} days`;
+}
+
+interface OccasionCountdownBadgeProps {
+  occasion: Pick<UpcomingOccasion, 'name' | 'daysUntil'>;
+  className?: string;
+}
+
+// "Birthday in 12 days"; turns amber for the last week
+export function OccasionCountdownBadge({ occasion, className = '' }: OccasionCountdownBadgeProps) {
+  const soon = occasion.daysUntil <= 7;
+
+  return (
+    <Badge
+      variant="secondary"
+      className={`gap-1 ${soon ? 'bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300' : 'bg-indigo-50 text-indigo-700 dark:bg-indigo-950/30 dark:text-indigo-300'} ${className}`}
+    >
+      <CalendarDays className="h-3 w-3" />
+      {occasion.name} {formatCountdown(occasion.daysUntil)}
+    </Badge>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { OccasionCountdownBadge } from './OccasionCountdownBadge';
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { createApiClient } from '../utils/api/client';
+import { daysBetween, localToday, nextOccurrence } from '@shared/occasions';
+import {
+  OCCASION_RECURRENCES,
+  OCCASION_TYPES,
+  type Occasion,
+  type OccasionRecurrence,
+  type OccasionType,
+  type Profile,
+} from '@shared/contracts';
+
+const TYPE_LABELS: Record<OccasionType, string> = {
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  holiday: 'Holiday',
+  other: 'Other',
+};
+
+const RECURRENCE_LABELS: Record<OccasionRecurrence, string> = {
+  yearly: 'Every year',
+  once: 'One time',
+};
+
+interface OccasionsPanelProps {
+  profile: Profile;
+  // Viewers of a shared profile see the dates but can't change them
+  readOnly?: boolean;
+}
+
+export function OccasionsPanel({ profile, readOnly = false }: OccasionsPanelProps) {
+  const [occasions, setOccasions] = useState<Occasion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<OccasionType>('birthday');
+  const [date, setDate] = useState('');
+  const [recurrence, setRecurrence] = useState<OccasionRecurrence>('yearly');
+
+  useEffect(() => {
+    loadOccasions();
+  }, [profile.id]);
+
+  const loadOccasions = async () => {
+    try {
+      setLoading(true);
+      setOccasions(await createApiClient().listOccasions(profile.id));
+    } catch (error) {
+      console.error('Failed to load occasions:', error);
+      toast.error('Failed to load occasions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addOccasion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const occasion = await createApiClient().createOccasion(profile.id, {
+        name: name.trim() || TYPE_LABELS[type],
+        type,
+        date,
+        recurrence,
+      });
+      setOccasions([...occasions, occasion]);
+      setName('');
+      setDate('');
+      toast.success('Occasion added');
+    } catch (error: any) {
+      console.error('Failed to create occasion:', error);
+      toast.error(error.message || 'Failed to create occasion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteOccasion = async (occasionId: string) => {
+    try {
+      await createApiClient().deleteOccasion(profile.id, occasionId);
+      setOccasions(occasions.filter(o => o.id !== occasionId));
+    } catch (error: any) {
+      console.error('Failed to delete occasion:', error);
+      toast.error(error.message || 'Failed to delete occasion');
+    }
+  };
+
+  // Soonest first; past one-off dates sink to the bottom
+  const today = localToday();
+  const withNextDate = occasions
+    .map((occasion) => {
+      const nextDate = nextOccurrence(occasion.date, occasion.recurrence, today);
+      return { ...occasion, nextDate, daysUntil: nextDate ? daysBetween(today, nextDate) : null };
+    })
+    .sort((a, b) => (a.daysUntil ?? Infinity) - (b.daysUntil ?? Infinity));
+
+  if (loading) {
+    return (
+      <div className="p-8 text-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-indigo-200 border-t-indigo-600 dark:border-gray-700 dark:border-t-indigo-500"></div>
+        <p className="mt-4 text-gray-600 dark:text-gray-400">Loading occasions...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <form onSubmit={addOccasion} className="p-6 bg-white dark:bg-slate-950 rounded-xl shadow-sm border border-gray-200 dark:border-gray-800 space-y-4">
+          <Label className="block text-gray-700 dark:text-gray-300">Add an Important Date</Label>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Select value={type} onValueChange={(value) => setType(value as OccasionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCCASION_TYPES.map((value) => (
+                  <SelectItem key={value} value={value}>{TYPE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={`Name (default: ${TYPE_LABELS[type]})`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            <Select value={recurrence} onValueChange={(value) => setRecurrence(value as OccasionRecurrence)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCCASION_RECURRENCES.map((value) => (
+                  <SelectItem key={value} value={value}>{RECURRENCE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !date} className="gap-2 bg-indigo-600 hover:bg-indigo-700">
+              <Plus className="h-4 w-4" />
+              {saving ? 'Adding...' : 'Add Occasion'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {withNextDate.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-slate-950">
+          <CalendarDays className="w-8 h-8 mx-auto mb-3 text-indigo-600 dark:text-indigo-400" />
+          <p className="text-gray-600 dark:text-gray-400">
+            No occasions yet. Add {profile.name}'s birthday to get a countdown on the dashboard.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {withNextDate.map((occasion) => (
+            <Card key={occasion.id} className="shadow-sm border-gray-200 dark:border-gray-800">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="text-gray-900 dark:text-white">{occasion.name}</CardTitle>
+                  <CardDescription>
+                    {TYPE_LABELS[occasion.type]} · {RECURRENCE_LABELS[occasion.recurrence]} · {occasion.date}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {occasion.daysUntil !== null ? (
+                    <OccasionCountdownBadge occasion={{ name: TYPE_LABELS[occasion.type], daysUntil: occasion.daysUntil }} />
+                  ) : (
+                    <span className="text-sm text-gray-500 dark:text-gray-500">Passed</span>
+                  )}
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteOccasion(occasion.id)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AGE_RANGES, RELATIONSHIPS, type ProfileAttributes } from '@shared/contracts';
+
+// Radix Select can't have an empty value, so "not set" gets its own
+const UNSET = 'unset';
+
+const RELATIONSHIP_LABELS: Record<(typeof RELATIONSHIPS)[number], string> = {
+  partner: 'Partner',
+  parent: 'Parent',
+  child: 'Child',
+  sibling: 'Sibling',
+  relative: 'Other relative',
+  friend: 'Friend',
+  colleague: 'Colleague',
+  other: 'Other',
+};
+
+const SIZE_FIELDS = [
+  { key: 'tops', label: 'Tops', placeholder: 'M' },
+  { key: 'bottoms', label: 'Bottoms', placeholder: '32/32' },
+  { key: 'shoes', label: 'Shoes', placeholder: '42' },
+  { key: 'ring', label: 'Ring', placeholder: '7' },
+] as const;
+
+const LIST_FIELDS = [
+  { key: 'favoriteColors', label: 'Favorite colors', placeholder: 'green, navy' },
+  { key: 'likes', label: 'Likes', placeholder: 'hiking, jazz, board games' },
+  { key: 'dislikes', label: 'Dislikes', placeholder: 'scented candles, lavender' },
+  { key: 'allergies', label: 'Allergies', placeholder: 'peanuts, wool' },
+] as const;
+
+type ListKey = (typeof LIST_FIELDS)[number]['key'];
+
+// Drops empty fields so "not set" is sent as absent rather than ""
+function compact(attributes: ProfileAttributes): ProfileAttributes {
+  const sizes = Object.fromEntries(Object.entries(attributes.sizes ?? {}).filter(([, size]) => size));
+  const result: ProfileAttributes = { ...attributes, sizes: Object.keys(sizes).length > 0 ? sizes : undefined };
+  for (const { key } of LIST_FIELDS) {
+    if (result[key]?.length === 0) result[key] = undefined;
+  }
+  if (!result.birthday) result.birthday = undefined;
+  return result;
+}
+
+interface ProfileAttributesFieldsProps {
+  value: ProfileAttributes;
+  onChange: (value: ProfileAttributes) => void;
+}
+
+// Structured details about the person; dislikes and allergies keep matching
+// notes and ideas out of searches and suggestions
+export function ProfileAttributesFields({ value, onChange }: ProfileAttributesFieldsProps) {
+  // Lists are edited as comma-separated text; keeping the raw text lets a
+  // trailing comma stay while typing
+  const [listText, setListText] = useState<Record<ListKey, string>>(() => ({
+    favoriteColors: value.favoriteColors?.join(', ') ?? '',
+    likes: value.likes?.join(', ') ?? '',
+    dislikes: value.dislikes?.join(', ') ?? '',
+    allergies: value.allergies?.join(', ') ?? '',
+  }));
+
+  const update = (changes: Partial<ProfileAttributes>) => onChange(compact({ ...value, ...changes }));
+
+  const handleListChange = (key: ListKey, text: string) => {
+    setListText({ ...listText, [key]: text });
+    update({ [key]: text.split(',').map(item => item.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Relationship</Label>
+          <Select
+            value={value.relationship ?? UNSET}
+            onValueChange={(v) => update({ relationship: v === UNSET ? undefined : (v as ProfileAttributes['relationship']) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>Not set</SelectItem>
+              {RELATIONSHIPS.map((relationship) => (
+                <SelectItem key={relationship} value={relationship}>{RELATIONSHIP_LABELS[relationship]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-birthday">Birthday</Label>
+          <Input
+            id="profile-birthday"
+            type="date"
+            value={value.birthday ?? ''}
+            onChange={(e) => update({ birthday: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Age range</Label>
+          <Select
+            value={value.ageRange ?? UNSET}
+            onValueChange={(v) => update({ ageRange: v === UNSET ? undefined : (v as ProfileAttributes['ageRange']) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>Not set</SelectItem>
+              {AGE_RANGES.map((range) => (
+                <SelectItem key={range} value={range}>{range}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Sizes</Label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {SIZE_FIELDS.map(({ key, label, placeholder }) => (
+            <Input
+              key={key}
+              aria-label={`${label} size`}
+              placeholder={`${label}: ${placeholder}`}
+              value={value.sizes?.[key] ?? ''}
+              onChange={(e) => update({ sizes: { ...value.sizes, [key]: e.target.value } })}
+            />
+          ))}
+        </div>
+      </div>
+      {LIST_FIELDS.map(({ key, label, placeholder }) => (
+        <div key={key} className="space-y-2">
+          <Label htmlFor={`profile-${key}`}>{label}</Label>
+          <Input
+            id={`profile-${key}`}
+            placeholder={placeholder}
+            value={listText[key]}
+            onChange={(e) => handleListChange(key, e.target.value)}
+          />
+        </div>
+      ))}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Separate items with commas. Notes and gift ideas mentioning a dislike or allergy are left out of searches and suggestions.
+      </p>
+    </div>
+  );
+}
@@ -1,22 +1,30 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
-import { Trash2 } from 'lucide-react';
-
-interface Profile {
-  id: string;
-  name: string;
-  avatar?: string;
-  description: string;
-}
+import { useState } from 'react';
+import { LogOut, Pencil, Share2, Trash2 } from 'lucide-react';
+import { OccasionCountdownBadge } from './OccasionCountdownBadge';
+import { EditProfileDialog } from './EditProfileDialog';
+import { ShareProfileDialog } from './ShareProfileDialog';
+import type { ProfileFormValues } from './CreateProfileDialog';
+import type { Profile, UpcomingOccasion } from '@shared/contracts';
 
 interface ProfileCardProps {
   profile: Profile;
+  // Soonest upcoming occasion for this profile, if any
+  nextOccasion?: UpcomingOccasion;
   onOpen: (profile: Profile) => void;
+  onEdit: (profileId: string, values: ProfileFormValues) => Promise<void>;
   onDelete: (profileId: string) => void;
+  // Removes a profile someone else shared from the list
+  onLeave: (profileId: string) => void;
 }
 
-export function ProfileCard({ profile, onOpen, onDelete }: ProfileCardProps) {
+export function ProfileCard({ profile, nextOccasion, onOpen, onEdit, onDelete, onLeave }: ProfileCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const role = profile.role ?? 'owner';
+
   // Safely generate initials with fallback for undefined/null name
   const initials = profile.name
     ? profile.name
@@ -37,7 +45,7 @@ export function ProfileCard({ profile, onOpen, onDelete }: ProfileCardProps) {
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-3 flex-1">
             <Avatar className="h-14 w-14 border-2 border-gray-100 dark:border-gray-800 shadow-sm">
-              <AvatarImage src={profile.avatar} alt={displayName} />
+              <AvatarImage src={profile.avatarThumb || profile.avatar} alt={displayName} />
               <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white">
                 {initials}
               </AvatarFallback>
@@ -45,19 +53,67 @@ export function ProfileCard({ profile, onOpen, onDelete }: ProfileCardProps) {
             <div className="flex-1 min-w-0">
               <CardTitle className="text-lg truncate">{displayName}</CardTitle>
               <CardDescription className="text-sm mt-1 line-clamp-2">{displayDescription}</CardDescription>
+              {role !== 'owner' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
+                  Shared by {profile.sharedBy || 'someone'} · {role === 'editor' ? 'Can edit' : 'Can view'}
+                </p>
+              )}
+              {nextOccasion && <OccasionCountdownBadge occasion={nextOccasion} className="mt-2" />}
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={(e) => {
-              e.stopPropagation();
-              onDelete(profile.id);
-            }}
-            className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30 opacity-0 group-hover:opacity-100 transition-opacity"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+            {role !== 'viewer' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditing(true);
+                }}
+                className="text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-950/30"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+            {role === 'owner' ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSharing(true);
+                  }}
+                  className="text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-950/30"
+                >
+                  <Share2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(profile.id);
+                  }}
+                  className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLeave(profile.id);
+                }}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="pt-0">
@@ -68,6 +124,8 @@ export function ProfileCard({ profile, onOpen, onDelete }: ProfileCardProps) {
           Open Profile
         </Button>
       </CardContent>
+      <EditProfileDialog profile={profile} open={editing} onOpenChange={setEditing} onSave={onEdit} />
+      {role === 'owner' && <ShareProfileDialog profile={profile} open={sharing} onOpenChange={setSharing} />}
     </Card>
   );
 }
\ No newline at end of file
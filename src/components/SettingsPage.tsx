@@ -2,15 +2,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
 import { Separator } from './ui/separator';
+import { Progress } from './ui/progress';
+import type { QuotaUsage, UserLimits } from '@shared/contracts';
 
 interface SettingsPageProps {
   darkMode: boolean;
   onToggleDarkMode: () => void;
   userEmail?: string;
   userName?: string;
+  limits: UserLimits | null;
 }
 
-export function SettingsPage({ darkMode, onToggleDarkMode, userEmail, userName }: SettingsPageProps) {
+function UsageRow({ label, usage }: { label: string; usage: QuotaUsage }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">{label}</span>
+        <span className="text-gray-900 dark:text-white">
+          {usage.used} / {usage.limit ?? 'Unlimited'}
+        </span>
+      </div>
+      {usage.limit !== null && <Progress value={usage.limit > 0 ? Math.min(100, (usage.used / usage.limit) * 100) : 100} />}
+    </div>
+  );
+}
+
+export function SettingsPage({ darkMode, onToggleDarkMode, userEmail, userName, limits }: SettingsPageProps) {
   return (
     <div className="p-8 max-w-4xl mx-auto">
       <div className="mb-8">
@@ -39,6 +56,24 @@ export function SettingsPage({ darkMode, onToggleDarkMode, userEmail, userName }
           </CardContent>
         </Card>
 
+        {limits && (
+          <Card className="shadow-sm border-gray-200 dark:border-gray-800">
+            <CardHeader>
+              <CardTitle>Plan & Usage</CardTitle>
+              <CardDescription>You're on the {limits.planName} plan</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <UsageRow label="Profiles" usage={limits.profiles} />
+              <UsageRow label="Embeddings today" usage={limits.embeddingsPerDay} />
+              <Separator />
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Notes per profile</span>
+                <span className="text-gray-900 dark:text-white">{limits.notesPerProfile.limit ?? 'Unlimited'}</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="shadow-sm border-gray-200 dark:border-gray-800">
           <CardHeader>
             <CardTitle>Appearance</CardTitle>
@@ -73,7 +108,7 @@ export function SettingsPage({ darkMode, onToggleDarkMode, userEmail, userName }
               <ul className="mt-2 space-y-2 text-sm text-gray-700 dark:text-gray-300">
                 <li className="flex items-center gap-2">
                   <div className="w-1.5 h-1.5 rounded-full bg-indigo-500"></div>
-                  Manage up to 5 profiles
+                  {limits?.profiles.limit != null ? `Manage up to ${limits.profiles.limit} profiles` : 'Manage multiple profiles'}
                 </li>
                 <li className="flex items-center gap-2">
                   <div className="w-1.5 h-1.5 rounded-full bg-indigo-500"></div>
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { createApiClient } from '../utils/api/client';
+import { SHARE_ROLES, type Profile, type ProfileShare, type ShareRole } from '@shared/contracts';
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+interface ShareProfileDialogProps {
+  profile: Profile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Owner-only: invite other users by email and change or revoke their access
+export function ShareProfileDialog({ profile, open, onOpenChange }: ShareProfileDialogProps) {
+  const [shares, setShares] = useState<ProfileShare[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('editor');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    if (open) loadShares();
+  }, [open, profile.id]);
+
+  const loadShares = async () => {
+    setLoading(true);
+    try {
+      setShares(await createApiClient().listShares(profile.id));
+    } catch (error: any) {
+      console.error('Failed to load collaborators:', error);
+      toast.error(error.message || 'Failed to load collaborators');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const share = await createApiClient().shareProfile(profile.id, { email: email.trim(), role });
+      setShares([...shares.filter(s => s.userId !== share.userId), share]);
+      setEmail('');
+      toast.success(`Shared ${profile.name} with ${share.name || share.email}`);
+    } catch (error: any) {
+      console.error('Failed to share profile:', error);
+      toast.error(error.message || 'Failed to share profile');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const changeRole = async (userId: string, newRole: ShareRole) => {
+    try {
+      const share = await createApiClient().updateShare(profile.id, userId, { role: newRole });
+      setShares(shares.map(s => (s.userId === userId ? share : s)));
+    } catch (error: any) {
+      console.error('Failed to update collaborator:', error);
+      toast.error(error.message || 'Failed to update collaborator');
+    }
+  };
+
+  const remove = async (userId: string) => {
+    try {
+      await createApiClient().removeShare(profile.id, userId);
+      setShares(shares.filter(s => s.userId !== userId));
+    } catch (error: any) {
+      console.error('Failed to remove collaborator:', error);
+      toast.error(error.message || 'Failed to remove collaborator');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share {profile.name}</DialogTitle>
+          <DialogDescription>
+            Collaborators see this profile under "Shared with me". Editors can change notes, gift ideas and occasions; viewers can only read them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={invite} className="space-y-2">
+          <Label htmlFor="share-email">Invite by email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-email"
+              type="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as ShareRole)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={inviting || !email.trim()} className="gap-2 bg-indigo-600 hover:bg-indigo-700">
+              <UserPlus className="h-4 w-4" />
+              {inviting ? 'Inviting...' : 'Invite'}
+            </Button>
+          </div>
+        </form>
+        <div className="space-y-2">
+          <Label>People with access</Label>
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading collaborators...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Only you can see this profile.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+              {shares.map((share) => (
+                <li key={share.userId} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-gray-900 dark:text-white truncate">{share.name || share.email}</p>
+                    {share.name && <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{share.email}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select value={share.role} onValueChange={(value) => changeRole(share.userId, value as ShareRole)}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SHARE_ROLES.map((value) => (
+                          <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(share.userId)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-950/30"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
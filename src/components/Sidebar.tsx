@@ -1,17 +1,22 @@
-import { LayoutDashboard, Settings, Moon, Sun, LogOut, BarChart3 } from 'lucide-react';
+import { LayoutDashboard, Settings, Moon, Sun, LogOut, BarChart3, Wallet } from 'lucide-react';
 import { Button } from './ui/button';
+import { NotificationCenter } from './NotificationCenter';
+import type { Reminder } from '@shared/contracts';
 
 interface SidebarProps {
-  currentPage: 'dashboard' | 'settings' | 'visualize';
-  onNavigate: (page: 'dashboard' | 'settings' | 'visualize') => void;
+  currentPage: 'dashboard' | 'settings' | 'visualize' | 'budgets';
+  onNavigate: (page: 'dashboard' | 'settings' | 'visualize' | 'budgets') => void;
   darkMode: boolean;
   onToggleDarkMode: () => void;
   onLogout: () => void;
+  reminders: Reminder[];
+  onMarkRemindersRead: (ids: string[]) => void;
 }
 
-export function Sidebar({ currentPage, onNavigate, darkMode, onToggleDarkMode, onLogout }: SidebarProps) {
+export function Sidebar({ currentPage, onNavigate, darkMode, onToggleDarkMode, onLogout, reminders, onMarkRemindersRead }: SidebarProps) {
   const navItems = [
     { id: 'dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+    { id: 'budgets', icon: Wallet, label: 'Budgets' },
     { id: 'visualize', icon: BarChart3, label: 'Visualize Data' },
     { id: 'settings', icon: Settings, label: 'Settings' },
   ] as const;
@@ -48,6 +53,8 @@ export function Sidebar({ currentPage, onNavigate, darkMode, onToggleDarkMode, o
       </nav>
 
       <div className="p-3 border-t border-gray-200 dark:border-gray-800 space-y-1">
+        <NotificationCenter reminders={reminders} onMarkRead={onMarkRemindersRead} />
+
         <Button
           variant="ghost"
           className="w-full justify-start h-11 hover:bg-gray-100 dark:hover:bg-slate-900"
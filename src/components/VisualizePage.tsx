@@ -3,36 +3,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Button } from './ui/button';
 import { toast } from 'sonner@2.0.3';
-import { projectId } from '../utils/supabase/info';
+import { createApiClient } from '../utils/api/client';
 import { RefreshCw } from 'lucide-react';
 import { BarChart3 } from 'lucide-react';
 import { Label } from './ui/label';
-
-interface Profile {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface Note {
-  id: string;
-  entry: string;
-  embedding: number[];
-  categoryId: string;
-  profileId: string;
-}
-
-interface Category {
-  id: string;
-  name: string;
-}
+import type { Category, Note, Profile } from '@shared/contracts';
 
 interface VisualizePageProps {
-  accessToken: string;
   profiles: Profile[];
 }
 
-export function VisualizePage({ accessToken, profiles }: VisualizePageProps) {
+export function VisualizePage({ profiles }: VisualizePageProps) {
   const [selectedProfile, setSelectedProfile] = useState<string>('');
   const [notes, setNotes] = useState<Note[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -47,20 +28,14 @@ export function VisualizePage({ accessToken, profiles }: VisualizePageProps) {
   const loadProfileData = async (profileId: string) => {
     try {
       setLoading(true);
-      const [notesRes, catsRes] = await Promise.all([
-        fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profileId}/notes`, {
-          headers: { 'Authorization': `Bearer ${accessToken}` },
-        }),
-        fetch(`https://${projectId}.supabase.co/functions/v1/make-server-db41cb13/profiles/${profileId}/categories`, {
-          headers: { 'Authorization': `Bearer ${accessToken}` },
-        }),
+      const api = createApiClient();
+      const [loadedNotes, loadedCategories] = await Promise.all([
+        api.listNotes(profileId),
+        api.listCategories(profileId),
       ]);
 
-      const notesData = await notesRes.json();
-      const catsData = await catsRes.json();
-
-      setNotes(notesData.notes || []);
-      setCategories(catsData.categories || []);
+      setNotes(loadedNotes);
+      setCategories(loadedCategories);
     } catch (error) {
       console.error('Failed to load data:', error);
       toast.error('Failed to load profile data');
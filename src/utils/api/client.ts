@@ -0,0 +1,566 @@
+import { projectId, publicAnonKey } from '../supabase/info';
+import { createClient } from '../supabase/client';
+import {
+  checkDuplicateGiftRequestSchema,
+  createGiftIdeaRequestSchema,
+  createOccasionRequestSchema,
+  createProfileRequestSchema,
+  markRemindersRequestSchema,
+  reorderCategoriesRequestSchema,
+  searchGiftsRequestSchema,
+  setAvatarRequestSchema,
+  setBudgetRequestSchema,
+  shareProfileRequestSchema,
+  signupRequestSchema,
+  submitNotesRequestSchema,
+  suggestGiftsRequestSchema,
+  updateCategoryRequestSchema,
+  updateGiftIdeaRequestSchema,
+  updateOccasionRequestSchema,
+  updateProfileRequestSchema,
+  updateShareRequestSchema,
+  type ApiErrorBody,
+  type AvatarUploadResponse,
+  type AvatarUploadTarget,
+  type BudgetResponse,
+  type BudgetsResponse,
+  type BudgetSummaryResponse,
+  type CategoriesResponse,
+  type CategoryResponse,
+  type CreateGiftIdeaRequest,
+  type CreateOccasionRequest,
+  type CreateProfileRequest,
+  type DeleteCategoryResponse,
+  type DuplicateGiftsResponse,
+  type GiftHistoryResponse,
+  type GiftIdeaResponse,
+  type GiftIdeasResponse,
+  type LimitsResponse,
+  type NoteConflict,
+  type NotesResponse,
+  type OccasionResponse,
+  type OccasionsResponse,
+  type ProfileResponse,
+  type ProfileShareResponse,
+  type ProfileSharesResponse,
+  type ProfilesResponse,
+  type RemindersResponse,
+  type SearchGiftsRequest,
+  type SearchGiftsResponse,
+  type SetBudgetRequest,
+  type ShareProfileRequest,
+  type SignupRequest,
+  type SignupResponse,
+  type SubmitNotesRequest,
+  type SubmitNotesResponse,
+  type SuccessResponse,
+  type SuggestGiftsRequest,
+  type SuggestGiftsResponse,
+  type UpcomingOccasionsResponse,
+  type UpdateCategoryRequest,
+  type UpdateGiftIdeaRequest,
+  type UpdateOccasionRequest,
+  type UpdateProfileRequest,
+  type UpdateShareRequest,
+  type ValidationIssue,
+} from '@shared/contracts';
+import { localToday } from '@shared/occasions';
+import type { Schema } from '@shared/schema';
+
+// Points at the deployed edge function unless VITE_API_BASE_URL is set, e.g.
+// http://localhost:54321/functions/v1/make-server-db41cb13 for `supabase functions serve`.
+export const DEFAULT_API_BASE_URL: string =
+  import.meta.env.VITE_API_BASE_URL ||
+  `https://${projectId}.supabase.co/functions/v1/make-server-db41cb13`;
+
+// Every failed call rejects with this, whether the server answered with an
+// error body, the request never reached it, or the input failed validation.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly fields?: ValidationIssue[],
+    // Set on 409 'conflict': the server's current version of each note
+    readonly conflicts?: NoteConflict[],
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  // The request never got an answer (offline, DNS, CORS, ...)
+  get isNetworkError() {
+    return this.code === 'network_error';
+  }
+}
+
+type TokenSource = () => Promise<string | null> | string | null;
+
+export interface GiveAGiftClientOptions {
+  baseUrl?: string;
+  // Current user's access token
+  getAccessToken: TokenSource;
+  // Called once after a 401; should return a fresh token or null
+  refreshAccessToken?: TokenSource;
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  // 'user' sends the session token, 'anon' the public anon key (signup)
+  auth?: 'user' | 'anon';
+}
+
+export class GiveAGiftClient {
+  readonly baseUrl: string;
+  private options: GiveAGiftClientOptions;
+
+  constructor(options: GiveAGiftClientOptions) {
+    this.options = options;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/$/, '');
+  }
+
+  // ---- Auth ----
+
+  async signup(request: SignupRequest) {
+    const body = validate(signupRequestSchema, request);
+    const data = await this.request<SignupResponse>('POST', '/signup', { body, auth: 'anon' });
+    return data.user;
+  }
+
+  // ---- Account ----
+
+  // Plan limits and current usage
+  async getLimits() {
+    const data = await this.request<LimitsResponse>('GET', '/me/limits');
+    return data.limits;
+  }
+
+  // ---- Profiles ----
+
+  async listProfiles() {
+    const data = await this.request<ProfilesResponse>('GET', '/profiles');
+    return data.profiles || [];
+  }
+
+  async createProfile(request: CreateProfileRequest) {
+    const body = validate(createProfileRequestSchema, request);
+    const data = await this.request<ProfileResponse>('POST', '/profiles', { body });
+    return data.profile;
+  }
+
+  async updateProfile(profileId: string, request: UpdateProfileRequest) {
+    const body = validate(updateProfileRequestSchema, request);
+    const data = await this.request<ProfileResponse>('PATCH', `/profiles/${encodeURIComponent(profileId)}`, { body });
+    return data.profile;
+  }
+
+  // Uploads an avatar already cropped and resized in the browser (see
+  // src/utils/image.ts) straight to Storage, then switches the profile to it
+  async uploadAvatar(profileId: string, images: { full: Blob; thumb: Blob }) {
+    const path = `/profiles/${encodeURIComponent(profileId)}/avatar`;
+    const upload = await this.request<AvatarUploadResponse>('POST', `${path}/uploads`);
+    await Promise.all([this.putFile(upload.full, images.full), this.putFile(upload.thumb, images.thumb)]);
+
+    const body = validate(setAvatarRequestSchema, { uploadId: upload.uploadId });
+    const data = await this.request<ProfileResponse>('PUT', path, { body });
+    return data.profile;
+  }
+
+  async removeAvatar(profileId: string) {
+    const data = await this.request<ProfileResponse>('DELETE', `/profiles/${encodeURIComponent(profileId)}/avatar`);
+    return data.profile;
+  }
+
+  async deleteProfile(profileId: string) {
+    await this.request<SuccessResponse>('DELETE', `/profiles/${encodeURIComponent(profileId)}`);
+  }
+
+  // ---- Sharing ----
+
+  async listShares(profileId: string) {
+    const data = await this.request<ProfileSharesResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/shares`,
+    );
+    return data.shares || [];
+  }
+
+  // The invitee must already have an account
+  async shareProfile(profileId: string, request: ShareProfileRequest) {
+    const body = validate(shareProfileRequestSchema, request);
+    const data = await this.request<ProfileShareResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/shares`,
+      { body },
+    );
+    return data.share;
+  }
+
+  async updateShare(profileId: string, userId: string, request: UpdateShareRequest) {
+    const body = validate(updateShareRequestSchema, request);
+    const data = await this.request<ProfileShareResponse>(
+      'PATCH',
+      `/profiles/${encodeURIComponent(profileId)}/shares/${encodeURIComponent(userId)}`,
+      { body },
+    );
+    return data.share;
+  }
+
+  async removeShare(profileId: string, userId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/shares/${encodeURIComponent(userId)}`,
+    );
+  }
+
+  // Removes a profile someone else shared from the signed-in user's list
+  async leaveSharedProfile(profileId: string) {
+    await this.request<SuccessResponse>('DELETE', `/shared-profiles/${encodeURIComponent(profileId)}`);
+  }
+
+  // ---- Categories & notes ----
+
+  async listCategories(profileId: string) {
+    const data = await this.request<CategoriesResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/categories`,
+    );
+    return data.categories || [];
+  }
+
+  async renameCategory(profileId: string, categoryId: string, request: UpdateCategoryRequest) {
+    const body = validate(updateCategoryRequestSchema, request);
+    const data = await this.request<CategoryResponse>(
+      'PATCH',
+      `/profiles/${encodeURIComponent(profileId)}/categories/${encodeURIComponent(categoryId)}`,
+      { body },
+    );
+    return data.category;
+  }
+
+  // Deletes the category and all of its notes; resolves to the number of notes deleted
+  async deleteCategory(profileId: string, categoryId: string) {
+    const data = await this.request<DeleteCategoryResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/categories/${encodeURIComponent(categoryId)}`,
+    );
+    return data.deletedNotes;
+  }
+
+  async reorderCategories(profileId: string, categoryIds: string[]) {
+    const body = validate(reorderCategoriesRequestSchema, { categoryIds });
+    const data = await this.request<CategoriesResponse>(
+      'PUT',
+      `/profiles/${encodeURIComponent(profileId)}/categories/order`,
+      { body },
+    );
+    return data.categories || [];
+  }
+
+  async listNotes(profileId: string) {
+    const data = await this.request<NotesResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/notes`,
+    );
+    return data.notes || [];
+  }
+
+  async submitNotes(profileId: string, request: SubmitNotesRequest) {
+    const body = validate(submitNotesRequestSchema, request);
+    return this.request<SubmitNotesResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/submit`,
+      { body },
+    );
+  }
+
+  async deleteNote(profileId: string, noteId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/notes/${encodeURIComponent(noteId)}`,
+    );
+  }
+
+  // ---- Gift ideas ----
+
+  async listGiftIdeas(profileId: string) {
+    const data = await this.request<GiftIdeasResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/gifts`,
+    );
+    return data.giftIdeas || [];
+  }
+
+  async createGiftIdea(profileId: string, request: CreateGiftIdeaRequest) {
+    const body = validate(createGiftIdeaRequestSchema, request);
+    const data = await this.request<GiftIdeaResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/gifts`,
+      { body },
+    );
+    return data.giftIdea;
+  }
+
+  async updateGiftIdea(profileId: string, giftId: string, request: UpdateGiftIdeaRequest) {
+    const body = validate(updateGiftIdeaRequestSchema, request);
+    const data = await this.request<GiftIdeaResponse>(
+      'PATCH',
+      `/profiles/${encodeURIComponent(profileId)}/gifts/${encodeURIComponent(giftId)}`,
+      { body },
+    );
+    return data.giftIdea;
+  }
+
+  async deleteGiftIdea(profileId: string, giftId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/gifts/${encodeURIComponent(giftId)}`,
+    );
+  }
+
+  // Earlier gifts to the profile that look like `title`
+  async findDuplicateGifts(profileId: string, title: string) {
+    const body = validate(checkDuplicateGiftRequestSchema, { title });
+    const data = await this.request<DuplicateGiftsResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/gifts/duplicates`,
+      { body },
+    );
+    return data.duplicates;
+  }
+
+  async listGiftHistory(profileId: string) {
+    const data = await this.request<GiftHistoryResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/history`,
+    );
+    return data.history;
+  }
+
+  async deleteGiftHistoryEntry(profileId: string, entryId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/history/${encodeURIComponent(entryId)}`,
+    );
+  }
+
+  // ---- Occasions ----
+
+  async listOccasions(profileId: string) {
+    const data = await this.request<OccasionsResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/occasions`,
+    );
+    return data.occasions || [];
+  }
+
+  async createOccasion(profileId: string, request: CreateOccasionRequest) {
+    const body = validate(createOccasionRequestSchema, request);
+    const data = await this.request<OccasionResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/occasions`,
+      { body },
+    );
+    return data.occasion;
+  }
+
+  async updateOccasion(profileId: string, occasionId: string, request: UpdateOccasionRequest) {
+    const body = validate(updateOccasionRequestSchema, request);
+    const data = await this.request<OccasionResponse>(
+      'PATCH',
+      `/profiles/${encodeURIComponent(profileId)}/occasions/${encodeURIComponent(occasionId)}`,
+      { body },
+    );
+    return data.occasion;
+  }
+
+  async deleteOccasion(profileId: string, occasionId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/occasions/${encodeURIComponent(occasionId)}`,
+    );
+  }
+
+  // Defaults to the next 60 days counted from the user's local date
+  async listUpcomingOccasions(options: { days?: number } = {}) {
+    const query = new URLSearchParams({ from: localToday(), days: String(options.days ?? 60) });
+    return this.request<UpcomingOccasionsResponse>('GET', `/occasions/upcoming?${query}`);
+  }
+
+  // ---- Budgets ----
+
+  async listBudgets(profileId: string, options: { year?: number } = {}) {
+    const query = options.year === undefined ? '' : `?year=${options.year}`;
+    const data = await this.request<BudgetsResponse>(
+      'GET',
+      `/profiles/${encodeURIComponent(profileId)}/budgets${query}`,
+    );
+    return data.budgets;
+  }
+
+  async setBudget(profileId: string, request: SetBudgetRequest) {
+    const body = validate(setBudgetRequestSchema, request);
+    const data = await this.request<BudgetResponse>(
+      'PUT',
+      `/profiles/${encodeURIComponent(profileId)}/budgets`,
+      { body },
+    );
+    return data.budget;
+  }
+
+  async deleteBudget(profileId: string, budgetId: string) {
+    await this.request<SuccessResponse>(
+      'DELETE',
+      `/profiles/${encodeURIComponent(profileId)}/budgets/${encodeURIComponent(budgetId)}`,
+    );
+  }
+
+  async getBudgetSummary(year: number) {
+    return this.request<BudgetSummaryResponse>('GET', `/budgets/summary?year=${year}`);
+  }
+
+  // ---- Reminders ----
+
+  // Reminders due on or before the user's local date, newest first
+  async listReminders() {
+    const query = new URLSearchParams({ today: localToday() });
+    return this.request<RemindersResponse>('GET', `/reminders?${query}`);
+  }
+
+  async markRemindersRead(ids: string[]) {
+    const body = validate(markRemindersRequestSchema, { ids });
+    await this.request<SuccessResponse>('POST', '/reminders/read', { body });
+  }
+
+  async markRemindersDelivered(ids: string[]) {
+    const body = validate(markRemindersRequestSchema, { ids });
+    await this.request<SuccessResponse>('POST', '/reminders/delivered', { body });
+  }
+
+  // ---- Search ----
+
+  async searchGifts(request: SearchGiftsRequest) {
+    const body = validate(searchGiftsRequestSchema, request);
+    return this.request<SearchGiftsResponse>('POST', '/search-gifts', { body });
+  }
+
+  async suggestGifts(profileId: string, request: SuggestGiftsRequest = {}) {
+    const body = validate(suggestGiftsRequestSchema, request);
+    return this.request<SuggestGiftsResponse>(
+      'POST',
+      `/profiles/${encodeURIComponent(profileId)}/suggest`,
+      { body },
+    );
+  }
+
+  // ---- Transport ----
+
+  private async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const { auth = 'user' } = options;
+    const token = auth === 'anon' ? publicAnonKey : await this.options.getAccessToken();
+    let response = await this.send(method, path, options.body, token);
+
+    // Expired session: refresh once and retry before giving up
+    if (response.status === 401 && auth === 'user' && this.options.refreshAccessToken) {
+      const refreshed = await this.options.refreshAccessToken();
+      if (refreshed) {
+        response = await this.send(method, path, options.body, refreshed);
+      }
+    }
+
+    const data = await parseBody(response);
+
+    if (!response.ok) {
+      const error = (data ?? {}) as Partial<ApiErrorBody>;
+      throw new ApiError(
+        error.error || `Request failed with status ${response.status}`,
+        response.status,
+        error.code,
+        error.fields,
+        error.conflicts,
+      );
+    }
+
+    return data as T;
+  }
+
+  // Signed upload URLs carry their own token, so no Authorization header
+  private async putFile(target: AvatarUploadTarget, file: Blob) {
+    let response: Response;
+    try {
+      response = await (this.options.fetch ?? fetch)(target.signedUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+    } catch (error: any) {
+      throw new ApiError(error?.message || 'Network request failed', 0, 'network_error');
+    }
+    if (!response.ok) {
+      const data = (await parseBody(response)) as { error?: string; message?: string } | null;
+      throw new ApiError(data?.message || data?.error || `Upload failed with status ${response.status}`, response.status);
+    }
+  }
+
+  private async send(method: string, path: string, body: unknown, token: string | null) {
+    const headers: Record<string, string> = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    try {
+      return await (this.options.fetch ?? fetch)(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error: any) {
+      throw new ApiError(error?.message || 'Network request failed', 0, 'network_error');
+    }
+  }
+}
+
+// Runs the shared schema before anything is sent so the user sees the same
+// field errors the server would return
+function validate<T>(schema: Schema<T>, input: unknown): T {
+  const result = schema(input);
+  if (!result.success) {
+    const [first] = result.issues;
+    throw new ApiError(`${first.path}: ${first.message}`, 400, 'invalid_request', result.issues);
+  }
+  return result.data;
+}
+
+async function parseBody(response: Response) {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: text };
+  }
+}
+
+// Create a singleton wired to the Supabase auth session
+let apiInstance: GiveAGiftClient | null = null;
+
+export const createApiClient = () => {
+  if (!apiInstance) {
+    const supabase = createClient();
+    apiInstance = new GiveAGiftClient({
+      getAccessToken: async () => {
+        const { data } = await supabase.auth.getSession();
+        return data.session?.access_token ?? null;
+      },
+      refreshAccessToken: async () => {
+        const { data, error } = await supabase.auth.refreshSession();
+        return error ? null : data.session?.access_token ?? null;
+      },
+    });
+  }
+  return apiInstance;
+};
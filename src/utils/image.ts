@@ -0,0 +1,76 @@
+import { AVATAR_SIZE, AVATAR_THUMB_SIZE } from '@shared/contracts';
+
+// Square crop of an image. At zoom 1 the square spans the image's shorter
+// side; offsetX / offsetY (-1 to 1) move it across whatever is left over.
+export interface SquareCrop {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_CROP: SquareCrop = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+export interface AvatarImages {
+  full: Blob;
+  thumb: Blob;
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = url;
+  });
+}
+
+// Source square (in image pixels) selected by a crop
+export function cropRect(image: HTMLImageElement, crop: SquareCrop) {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const side = Math.min(width, height) / crop.zoom;
+  return {
+    x: ((width - side) / 2) * (1 + crop.offsetX),
+    y: ((height - side) / 2) * (1 + crop.offsetY),
+    side,
+  };
+}
+
+export function drawCrop(canvas: HTMLCanvasElement, image: HTMLImageElement, crop: SquareCrop) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const { x, y, side } = cropRect(image, crop);
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, x, y, side, side, 0, 0, canvas.width, canvas.height);
+}
+
+async function renderSquare(image: HTMLImageElement, crop: SquareCrop, size: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  drawCrop(canvas, image, crop);
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      'image/webp',
+      0.85,
+    );
+  });
+}
+
+// The two files uploaded for an avatar: full size and thumbnail
+export async function renderAvatar(image: HTMLImageElement, crop: SquareCrop): Promise<AvatarImages> {
+  const [full, thumb] = await Promise.all([
+    renderSquare(image, crop, AVATAR_SIZE),
+    renderSquare(image, crop, AVATAR_THUMB_SIZE),
+  ]);
+  return { full, thumb };
+}
@@ -0,0 +1,53 @@
+import type { Category, Note } from '@shared/contracts';
+
+// Unsaved NotesPage edits, kept in localStorage so they survive a reload or
+// leaving the page before autosave ran. Only what isn't on the server yet is
+// stored: categories created locally and notes that differ from their saved
+// version.
+export interface NotesDraft {
+  categories: Category[];
+  notes: Note[];
+  updatedAt: string;
+}
+
+const keyFor = (profileId: string) => `give-a-gift:notes-draft:${profileId}`;
+
+export function loadNotesDraft(profileId: string): NotesDraft | null {
+  try {
+    const raw = localStorage.getItem(keyFor(profileId));
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as NotesDraft;
+    return Array.isArray(draft.categories) && Array.isArray(draft.notes) ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be full or disabled (private mode); drafts are best effort
+export function saveNotesDraft(profileId: string, draft: Omit<NotesDraft, 'updatedAt'>) {
+  try {
+    if (draft.categories.length === 0 && draft.notes.length === 0) {
+      localStorage.removeItem(keyFor(profileId));
+    } else {
+      localStorage.setItem(keyFor(profileId), JSON.stringify({ ...draft, updatedAt: new Date().toISOString() }));
+    }
+  } catch (error) {
+    console.log('Could not store notes draft:', error);
+  }
+}
+
+// Applies a draft on top of what the server returned. Draft notes replace
+// the server's version of the same note; notes whose category no longer
+// exists are dropped.
+export function mergeNotesDraft(categories: Category[], notes: Note[], draft: NotesDraft) {
+  const categoryIds = new Set(categories.map(c => c.id));
+  const mergedCategories = [...categories, ...draft.categories.filter(c => !categoryIds.has(c.id))];
+  const knownCategories = new Set(mergedCategories.map(c => c.id));
+
+  const draftNotes = new Map(draft.notes.filter(n => knownCategories.has(n.categoryId)).map(n => [n.id, n]));
+  const mergedNotes = notes.map(n => draftNotes.get(n.id) ?? n);
+  const serverNoteIds = new Set(notes.map(n => n.id));
+  mergedNotes.push(...[...draftNotes.values()].filter(n => !serverNoteIds.has(n.id)));
+
+  return { categories: mergedCategories, notes: mergedNotes, restored: draftNotes.size + mergedCategories.length - categories.length };
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { ApiError, type GiveAGiftClient } from './api/client';
+import type { Category, Note, Profile } from '@shared/contracts';
+
+// Offline support: the last profiles, categories and notes loaded from the
+// server are cached in localStorage so pages still open without a
+// connection, and changes that can't be expressed as a notes draft (deletes,
+// renames, reorders) are queued and replayed once the browser is back online.
+// Unsaved note edits themselves live in the notes draft (see noteDrafts.ts).
+
+const PREFIX = 'give-a-gift:';
+const PROFILES_KEY = `${PREFIX}profiles`;
+const QUEUE_KEY = `${PREFIX}queue`;
+const notesKey = (profileId: string) => `${PREFIX}notes:${profileId}`;
+
+function read<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be full or disabled (private mode); the cache is best effort
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.log('Could not update offline cache:', error);
+  }
+}
+
+// ---- Read cache ----
+
+export function loadCachedProfiles() {
+  return read<Profile[]>(PROFILES_KEY);
+}
+
+export function cacheProfiles(profiles: Profile[]) {
+  write(PROFILES_KEY, profiles);
+}
+
+export interface CachedNotes {
+  categories: Category[];
+  notes: Note[];
+}
+
+export function loadCachedNotes(profileId: string) {
+  const cached = read<CachedNotes>(notesKey(profileId));
+  return cached && Array.isArray(cached.categories) && Array.isArray(cached.notes) ? cached : null;
+}
+
+// Vectors are only needed server-side and would fill the storage quota
+export function cacheNotes(profileId: string, { categories, notes }: CachedNotes) {
+  write(notesKey(profileId), { categories, notes: notes.map(({ embedding, ...note }) => note) });
+}
+
+// Everything this app keeps on the device, e.g. on logout so the next
+// account doesn't see it
+export function clearOfflineData() {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.log('Could not clear offline data:', error);
+  }
+}
+
+// ---- Mutation queue ----
+
+export type QueuedMutation =
+  | { kind: 'deleteNote'; profileId: string; noteId: string }
+  | { kind: 'renameCategory'; profileId: string; categoryId: string; name: string }
+  | { kind: 'deleteCategory'; profileId: string; categoryId: string }
+  | { kind: 'reorderCategories'; profileId: string; categoryIds: string[] };
+
+export function pendingMutations() {
+  return read<QueuedMutation[]>(QUEUE_KEY) ?? [];
+}
+
+export function queueMutation(mutation: QueuedMutation) {
+  write(QUEUE_KEY, [...pendingMutations(), mutation]);
+}
+
+function apply(client: GiveAGiftClient, mutation: QueuedMutation): Promise<unknown> {
+  switch (mutation.kind) {
+    case 'deleteNote':
+      return client.deleteNote(mutation.profileId, mutation.noteId);
+    case 'renameCategory':
+      return client.renameCategory(mutation.profileId, mutation.categoryId, { name: mutation.name });
+    case 'deleteCategory':
+      return client.deleteCategory(mutation.profileId, mutation.categoryId);
+    case 'reorderCategories':
+      return client.reorderCategories(mutation.profileId, mutation.categoryIds);
+  }
+}
+
+let replaying: Promise<number> | null = null;
+
+// Sends queued mutations in the order they were made. Stops at the first
+// network error (or expired session) and keeps the rest for next time; a
+// mutation the server refuses (e.g. a 404 for something already deleted
+// elsewhere) is dropped. Resolves to the number of mutations applied.
+export function replayMutations(client: GiveAGiftClient) {
+  replaying ??= replayQueue(client).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+async function replayQueue(client: GiveAGiftClient) {
+  let applied = 0;
+  for (const mutation of pendingMutations()) {
+    try {
+      await apply(client, mutation);
+      applied++;
+    } catch (error) {
+      if (isNetworkError(error) || (error instanceof ApiError && error.isUnauthorized)) break;
+      console.log(`Dropping queued ${mutation.kind}:`, error);
+    }
+    // Mutations queued meanwhile were appended, so the head is this one
+    write(QUEUE_KEY, pendingMutations().slice(1));
+  }
+  return applied;
+}
+
+export function isNetworkError(error: unknown) {
+  return error instanceof ApiError && error.isNetworkError;
+}
+
+// ---- Connectivity ----
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
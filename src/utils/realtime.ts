@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createClient } from './supabase/client';
+import {
+  profileTopic,
+  userTopic,
+  type CategoryChange,
+  type NoteChange,
+  type ProfileChange,
+  type ProfilePresence,
+} from '@shared/contracts';
+
+// Live updates over Supabase Realtime. Changes are broadcast by database
+// triggers on private channels (see 20261019160000_realtime_broadcasts.sql);
+// this session's own saves come back too, so handlers must be idempotent.
+
+// One per tab, so two tabs on the same device count as separate sessions
+const SESSION_ID = crypto.randomUUID();
+
+function deviceKind() {
+  const agent = navigator.userAgent;
+  if (/iPad|Tablet/i.test(agent)) return 'tablet';
+  if (/Mobi|Android|iPhone/i.test(agent)) return 'phone';
+  return 'computer';
+}
+
+// Profile inserts, updates and deletes of the signed-in user
+export function useProfileChanges(userId: string | undefined, onChange: (change: ProfileChange) => void) {
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!userId) return;
+    const supabase = createClient();
+    const channel = supabase
+      .channel(userTopic(userId), { config: { private: true } })
+      .on('broadcast', { event: 'profile' }, ({ payload }) => handler.current(payload as ProfileChange))
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+}
+
+interface ProfileChannelHandlers {
+  onCategory: (change: CategoryChange) => void;
+  onNote: (change: NoteChange) => void;
+  // Called after the channel reconnects, since broadcasts sent while it was
+  // down are lost
+  onResync: () => void;
+}
+
+// Category and note changes of one profile, plus presence: this session
+// shares whether it has unsaved edits, and gets back the other sessions that
+// have the profile open.
+export function useProfileChannel(profileId: string, editing: boolean, handlers: ProfileChannelHandlers) {
+  const [others, setOthers] = useState<ProfilePresence[]>([]);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const presenceRef = useRef<ProfilePresence>({
+    sessionId: SESSION_ID,
+    device: deviceKind(),
+    editing,
+    since: new Date().toISOString(),
+  });
+  // Set once subscribed; tracking before that would be dropped
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  useEffect(() => {
+    const supabase = createClient();
+    let joinedBefore = false;
+    const channel = supabase.channel(profileTopic(profileId), {
+      config: { private: true, presence: { key: SESSION_ID } },
+    });
+
+    channel
+      .on('broadcast', { event: 'category' }, ({ payload }) => handlersRef.current.onCategory(payload as CategoryChange))
+      .on('broadcast', { event: 'note' }, ({ payload }) => handlersRef.current.onNote(payload as NoteChange))
+      .on('presence', { event: 'sync' }, () => {
+        const sessions = Object.values(channel.presenceState<ProfilePresence>()).map(([latest]) => latest);
+        setOthers(sessions.filter(session => session && session.sessionId !== SESSION_ID));
+      })
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        channelRef.current = channel;
+        channel.track(presenceRef.current);
+        if (joinedBefore) handlersRef.current.onResync();
+        joinedBefore = true;
+      });
+
+    return () => {
+      channelRef.current = null;
+      setOthers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (presenceRef.current.editing === editing) return;
+    presenceRef.current = { ...presenceRef.current, editing };
+    channelRef.current?.track(presenceRef.current);
+  }, [editing]);
+
+  return others;
+}
@@ -0,0 +1,803 @@
+// Request/response contracts for the make-server-db41cb13 edge function.
+// Imported by the Hono routes (Deno) and by the frontend (via the @shared
+// alias in vite.config.ts), so both sides validate against the same shapes.
+import {
+  array,
+  boolean,
+  type Infer,
+  number,
+  nullish,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  timestamp,
+  uuid,
+  type ValidationIssue,
+} from "./schema.ts";
+import { isValidDate } from "./occasions.ts";
+
+// ---- Entities ----
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar?: string;
+  // Small copy of an uploaded avatar; empty for pasted links
+  avatarThumb?: string;
+  description: string;
+  attributes?: ProfileAttributes;
+  // Owner's id; a shared profile's notes and ideas belong to the owner too
+  userId?: string;
+  createdAt?: string;
+  // The signed-in user's access (set by GET /profiles)
+  role?: ProfileRole;
+  // Owner's name or email, on profiles shared with the signed-in user
+  sharedBy?: string;
+}
+
+// Viewers can only read; editors can change everything except the profile's
+// sharing and deleting it, which only the owner can do
+export const PROFILE_ROLES = ["owner", "editor", "viewer"] as const;
+export type ProfileRole = (typeof PROFILE_ROLES)[number];
+export const SHARE_ROLES = ["editor", "viewer"] as const;
+export type ShareRole = (typeof SHARE_ROLES)[number];
+
+// Someone a profile is shared with
+export interface ProfileShare {
+  userId: string;
+  email: string;
+  name?: string;
+  role: ShareRole;
+  createdAt: string;
+}
+
+export const RELATIONSHIPS = [
+  "partner",
+  "parent",
+  "child",
+  "sibling",
+  "relative",
+  "friend",
+  "colleague",
+  "other",
+] as const;
+export type Relationship = (typeof RELATIONSHIPS)[number];
+
+export const AGE_RANGES = [
+  "0-4",
+  "5-12",
+  "13-17",
+  "18-24",
+  "25-34",
+  "35-44",
+  "45-54",
+  "55-64",
+  "65+",
+] as const;
+export type AgeRange = (typeof AGE_RANGES)[number];
+
+// Structured facts about a profile, given to the LLM and used to filter
+// results. Items matching a dislike or allergy are left out of searches and
+// suggestions. Every field is optional.
+export interface ProfileAttributes {
+  relationship?: Relationship;
+  // "YYYY-MM-DD"
+  birthday?: string;
+  ageRange?: AgeRange;
+  sizes?: { tops?: string; bottoms?: string; shoes?: string; ring?: string };
+  favoriteColors?: string[];
+  likes?: string[];
+  dislikes?: string[];
+  allergies?: string[];
+}
+
+// Uploaded avatars are cropped square and resized in the browser, then
+// stored as WebP in this Storage bucket at both sizes (pixels)
+export const AVATAR_BUCKET = "profile-avatars";
+export const AVATAR_SIZE = 512;
+export const AVATAR_THUMB_SIZE = 96;
+export const AVATAR_MAX_BYTES = 1024 * 1024;
+
+export interface Category {
+  id: string;
+  name: string;
+  // Tab order within the profile, from 0
+  position?: number;
+  profileId?: string;
+  userId?: string;
+  createdAt?: string;
+}
+
+export interface Note {
+  id: string;
+  entry: string;
+  categoryId: string;
+  profileId?: string;
+  userId?: string;
+  embedding?: number[];
+  embeddingModel?: string;
+  embeddingDim?: number;
+  contentHash?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const GIFT_STATUSES = [
+  "idea",
+  "planned",
+  "purchased",
+  "given",
+  "rejected",
+] as const;
+export type GiftStatus = (typeof GIFT_STATUSES)[number];
+
+export interface GiftIdea {
+  id: string;
+  profileId: string;
+  title: string;
+  url: string | null;
+  price: number | null;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  status: GiftStatus;
+  occasion: string | null;
+  // Occasion whose budget the gift counts toward
+  occasionId: string | null;
+  // Notes that inspired the idea
+  noteIds: string[];
+  statusChangedAt: string;
+  // Set when the gift becomes "purchased" (kept once "given"); counts as
+  // spend in that year
+  purchasedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A gift that was given, recorded when its idea is marked "given"
+export interface GiftHistoryEntry {
+  id: string;
+  profileId: string;
+  // null once the originating gift idea has been deleted
+  giftIdeaId: string | null;
+  title: string;
+  price: number | null;
+  currency: string;
+  occasion: string | null;
+  givenOn: string;
+  createdAt: string;
+}
+
+// An earlier gift that looks like the one being considered
+export interface PreviouslyGiven extends GiftHistoryEntry {
+  // Cosine similarity of the two titles' embeddings
+  similarity: number;
+}
+
+export const OCCASION_TYPES = [
+  "birthday",
+  "anniversary",
+  "holiday",
+  "other",
+] as const;
+export type OccasionType = (typeof OCCASION_TYPES)[number];
+
+export const OCCASION_RECURRENCES = ["yearly", "once"] as const;
+export type OccasionRecurrence = (typeof OCCASION_RECURRENCES)[number];
+
+export interface Occasion {
+  id: string;
+  profileId: string;
+  name: string;
+  type: OccasionType;
+  // "YYYY-MM-DD"; for yearly occasions the first time it happened
+  date: string;
+  recurrence: OccasionRecurrence;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An occasion with its next date, as listed on the dashboard
+export interface UpcomingOccasion extends Occasion {
+  profileName: string;
+  nextDate: string;
+  daysUntil: number;
+}
+
+export interface Budget {
+  id: string;
+  profileId: string;
+  // null for the profile's budget for the whole year
+  occasionId: string | null;
+  year: number;
+  amount: number;
+  currency: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Reminder {
+  id: string;
+  profileId: string;
+  occasionId: string;
+  // The occurrence the reminder is about ("YYYY-MM-DD")
+  occasionDate: string;
+  daysBefore: number;
+  remindOn: string;
+  title: string;
+  message: string;
+  deliveredAt: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// A limit and how much of it is used; a null limit means unlimited
+export interface QuotaUsage {
+  limit: number | null;
+  used: number;
+}
+
+export interface UserLimits {
+  // Plan id, e.g. "free"
+  plan: string;
+  planName: string;
+  profiles: QuotaUsage;
+  // Checked per profile when notes are submitted
+  notesPerProfile: { limit: number | null };
+  // Texts embedded today (notes, search queries, ...); resets at 00:00 UTC
+  embeddingsPerDay: QuotaUsage & { day: string };
+}
+
+export type QuotaName = "profiles" | "notesPerProfile" | "embeddingsPerDay";
+
+// ---- Realtime ----
+// Database triggers broadcast row changes on private Realtime channels (see
+// migration 20261019160000_realtime_broadcasts.sql). The profile topic also
+// carries presence of the sessions that have the profile open.
+
+export const userTopic = (userId: string) => `user:${userId}`;
+export const profileTopic = (profileId: string) => `profile:${profileId}`;
+
+// Broadcast event names, one per entity
+export const REALTIME_EVENTS = ["profile", "category", "note"] as const;
+export type RealtimeEvent = (typeof REALTIME_EVENTS)[number];
+
+// Deletes only carry the ids of the removed row
+export type RealtimeChange<
+  T extends { id: string },
+  DeletedKeys extends keyof T = "id",
+> =
+  | { op: "INSERT" | "UPDATE"; record: T }
+  | { op: "DELETE"; record: Pick<T, "id" | DeletedKeys> };
+
+export type ProfileChange = RealtimeChange<Profile>;
+export type CategoryChange = RealtimeChange<Category, "profileId">;
+export type NoteChange = RealtimeChange<Note, "categoryId" | "profileId">;
+
+// What each session with a profile open shares through presence
+export interface ProfilePresence {
+  sessionId: string;
+  // "phone", "tablet" or "computer", for "also open on your phone"
+  device: string;
+  // Has edits that aren't saved yet
+  editing: boolean;
+  since: string;
+}
+
+// ---- Requests ----
+
+export const signupRequestSchema = object({
+  email: string({ trim: true, min: 3, pattern: /^[^\s@]+@[^\s@]+$/ }),
+  password: string({ min: 6 }),
+  name: optional(string({ trim: true, max: 100 })),
+});
+export type SignupRequest = Infer<typeof signupRequestSchema>;
+
+// "YYYY-MM-DD" that exists in the calendar; `path` names the field in errors
+const calendarDate = (path: string) =>
+  refine(string({ pattern: /^\d{4}-\d{2}-\d{2}$/ }), (date) =>
+    isValidDate(date) ? null : { path, message: "Is not a valid date" }
+  );
+
+const attributeList = array(string({ trim: true, min: 1, max: 100 }), {
+  max: 50,
+});
+const sizeField = optional(string({ trim: true, max: 20 }));
+
+export const profileAttributesSchema = object({
+  relationship: optional(oneOf(RELATIONSHIPS)),
+  birthday: optional(calendarDate("attributes.birthday")),
+  ageRange: optional(oneOf(AGE_RANGES)),
+  sizes: optional(
+    object({
+      tops: sizeField,
+      bottoms: sizeField,
+      shoes: sizeField,
+      ring: sizeField,
+    })
+  ),
+  favoriteColors: optional(attributeList),
+  likes: optional(attributeList),
+  dislikes: optional(attributeList),
+  allergies: optional(attributeList),
+});
+
+const profileFields = {
+  name: string({ trim: true, min: 1, max: 100 }),
+  avatar: string({ trim: true, max: 2048 }),
+  description: string({ trim: true, min: 1, max: 2000 }),
+  attributes: profileAttributesSchema,
+};
+
+export const createProfileRequestSchema = object({
+  name: profileFields.name,
+  avatar: optional(profileFields.avatar),
+  description: profileFields.description,
+  attributes: optional(profileFields.attributes),
+});
+export type CreateProfileRequest = Infer<typeof createProfileRequestSchema>;
+
+// Only the fields present are changed; an empty avatar removes it, and
+// attributes are replaced as a whole
+export const updateProfileRequestSchema = object({
+  name: optional(profileFields.name),
+  avatar: optional(profileFields.avatar),
+  description: optional(profileFields.description),
+  attributes: optional(profileFields.attributes),
+});
+export type UpdateProfileRequest = Infer<typeof updateProfileRequestSchema>;
+
+const categoryName = string({ trim: true, min: 1, max: 100 });
+const categoryPosition = number({ integer: true, min: 0, max: 10_000 });
+
+export const submitNotesRequestSchema = object({
+  categories: optional(
+    array(
+      object({
+        id: optional(uuid()),
+        name: categoryName,
+        // Omitted: existing categories keep theirs, new ones go last
+        position: optional(categoryPosition),
+        createdAt: optional(timestamp()),
+      }),
+      { max: 100 }
+    )
+  ),
+  notes: optional(
+    array(
+      object({
+        id: optional(uuid()),
+        entry: string({ max: 10000 }),
+        categoryId: uuid(),
+        createdAt: optional(timestamp()),
+        // The note's updatedAt when the client last got it from the server.
+        // If it has changed since (another device saved it), nothing is
+        // saved and the response is a 409 listing the conflicts.
+        baseUpdatedAt: optional(timestamp()),
+      }),
+      { max: 1000 }
+    )
+  ),
+});
+export type SubmitNotesRequest = Infer<typeof submitNotesRequestSchema>;
+
+export const updateCategoryRequestSchema = object({
+  name: categoryName,
+});
+export type UpdateCategoryRequest = Infer<typeof updateCategoryRequestSchema>;
+
+// The profile's categories in their new order; ids of categories that
+// haven't been saved yet are skipped
+export const reorderCategoriesRequestSchema = object({
+  categoryIds: array(uuid(), { max: 1000 }),
+});
+export type ReorderCategoriesRequest = Infer<
+  typeof reorderCategoriesRequestSchema
+>;
+
+// Invite an existing user to a profile
+export const shareProfileRequestSchema = object({
+  email: string({ trim: true, min: 3, pattern: /^[^\s@]+@[^\s@]+$/ }),
+  role: oneOf(SHARE_ROLES),
+});
+export type ShareProfileRequest = Infer<typeof shareProfileRequestSchema>;
+
+export const updateShareRequestSchema = object({
+  role: oneOf(SHARE_ROLES),
+});
+export type UpdateShareRequest = Infer<typeof updateShareRequestSchema>;
+
+export const searchGiftsRequestSchema = object({
+  query: string({ trim: true, min: 1, max: 1000 }),
+  profileId: optional(uuid()),
+  profileName: optional(string({ trim: true, min: 1 })),
+  categoryIds: optional(array(uuid(), { max: 100 })),
+  // Maximum number of notes returned (default 10)
+  limit: optional(number({ integer: true, min: 1, max: 50 })),
+  // Cosine similarity (0-1) a note must reach to count as a vector match
+  // (default 0); keyword matches aren't affected
+  minScore: optional(number({ min: 0, max: 1 })),
+  // Hybrid ranking: how much each signal counts in reciprocal rank fusion
+  // (default 1 each, 0 turns a signal off) and the RRF constant k (default 60)
+  weights: optional(
+    refine(
+      object({
+        vector: optional(number({ min: 0, max: 10 })),
+        keyword: optional(number({ min: 0, max: 10 })),
+      }),
+      ({ vector = 1, keyword = 1 }) =>
+        vector > 0 || keyword > 0
+          ? null
+          : { path: "weights", message: "At least one weight must be above 0" }
+    )
+  ),
+  rrfK: optional(number({ integer: true, min: 1, max: 1000 })),
+  // Notes mentioning a profile's dislikes or allergies are left out unless
+  // this is true
+  includeDisliked: optional(boolean()),
+});
+export type SearchGiftsRequest = Infer<typeof searchGiftsRequestSchema>;
+
+export const suggestGiftsRequestSchema = object({
+  // What the user is looking for; also used to retrieve matching notes
+  query: optional(string({ trim: true, max: 1000 })),
+  occasion: optional(string({ trim: true, max: 200 })),
+  budget: optional(
+    refine(
+      object({
+        min: optional(number({ min: 0 })),
+        max: optional(number({ min: 0 })),
+        // ISO 4217 code (default USD)
+        currency: optional(string({ pattern: /^[A-Z]{3}$/ })),
+      }),
+      ({ min, max }) =>
+        min !== undefined && max !== undefined && min > max
+          ? { path: "budget.min", message: "Must not exceed budget.max" }
+          : null
+    )
+  ),
+  // Number of ideas to generate (default 5)
+  count: optional(number({ integer: true, min: 1, max: 10 })),
+  // Number of notes retrieved as context (default 12)
+  noteLimit: optional(number({ integer: true, min: 1, max: 50 })),
+});
+export type SuggestGiftsRequest = Infer<typeof suggestGiftsRequestSchema>;
+
+const giftIdeaFields = {
+  title: string({ trim: true, min: 1, max: 200 }),
+  url: string({ trim: true, max: 2048, pattern: /^https?:\/\//i }),
+  price: number({ min: 0, max: 1_000_000 }),
+  currency: string({ pattern: /^[A-Z]{3}$/ }),
+  status: oneOf(GIFT_STATUSES),
+  occasion: string({ trim: true, max: 200 }),
+  occasionId: uuid(),
+  noteIds: array(uuid(), { max: 50 }),
+};
+
+export const createGiftIdeaRequestSchema = object({
+  title: giftIdeaFields.title,
+  url: optional(giftIdeaFields.url),
+  price: optional(giftIdeaFields.price),
+  currency: optional(giftIdeaFields.currency),
+  status: optional(giftIdeaFields.status),
+  occasion: optional(giftIdeaFields.occasion),
+  occasionId: optional(giftIdeaFields.occasionId),
+  noteIds: optional(giftIdeaFields.noteIds),
+});
+export type CreateGiftIdeaRequest = Infer<typeof createGiftIdeaRequestSchema>;
+
+// Only the fields present are changed; send null to clear url, price,
+// occasion or occasionId
+export const updateGiftIdeaRequestSchema = object({
+  title: optional(giftIdeaFields.title),
+  url: nullish(giftIdeaFields.url),
+  price: nullish(giftIdeaFields.price),
+  currency: optional(giftIdeaFields.currency),
+  status: optional(giftIdeaFields.status),
+  occasion: nullish(giftIdeaFields.occasion),
+  occasionId: nullish(giftIdeaFields.occasionId),
+  noteIds: optional(giftIdeaFields.noteIds),
+});
+export type UpdateGiftIdeaRequest = Infer<typeof updateGiftIdeaRequestSchema>;
+
+export const checkDuplicateGiftRequestSchema = object({
+  title: giftIdeaFields.title,
+});
+export type CheckDuplicateGiftRequest = Infer<
+  typeof checkDuplicateGiftRequestSchema
+>;
+
+export const createOccasionRequestSchema = object({
+  name: string({ trim: true, min: 1, max: 200 }),
+  type: optional(oneOf(OCCASION_TYPES)),
+  date: calendarDate("date"),
+  recurrence: optional(oneOf(OCCASION_RECURRENCES)),
+});
+export type CreateOccasionRequest = Infer<typeof createOccasionRequestSchema>;
+
+export const updateOccasionRequestSchema = object({
+  name: optional(string({ trim: true, min: 1, max: 200 })),
+  type: optional(oneOf(OCCASION_TYPES)),
+  date: optional(calendarDate("date")),
+  recurrence: optional(oneOf(OCCASION_RECURRENCES)),
+});
+export type UpdateOccasionRequest = Infer<typeof updateOccasionRequestSchema>;
+
+const budgetYear = number({ integer: true, min: 2000, max: 2100 });
+
+// Creates or replaces the budget for the profile's year, or for one of its
+// occasions in that year when occasionId is set
+export const setBudgetRequestSchema = object({
+  year: budgetYear,
+  occasionId: optional(uuid()),
+  amount: number({ min: 0, max: 1_000_000 }),
+  currency: optional(string({ pattern: /^[A-Z]{3}$/ })),
+});
+export type SetBudgetRequest = Infer<typeof setBudgetRequestSchema>;
+
+export const markRemindersRequestSchema = object({
+  ids: array(uuid(), { max: 200 }),
+});
+export type MarkRemindersRequest = Infer<typeof markRemindersRequestSchema>;
+
+// Sent after both files are uploaded to the URLs from
+// POST /profiles/:profileId/avatar/uploads
+export const setAvatarRequestSchema = object({
+  uploadId: uuid(),
+});
+export type SetAvatarRequest = Infer<typeof setAvatarRequestSchema>;
+
+// ---- Responses ----
+
+export interface ProfilesResponse {
+  profiles: Profile[];
+}
+
+export interface ProfileResponse {
+  profile: Profile;
+}
+
+// Where to upload one file of an avatar (Storage signed upload URL)
+export interface AvatarUploadTarget {
+  path: string;
+  token: string;
+  signedUrl: string;
+}
+
+export interface AvatarUploadResponse {
+  uploadId: string;
+  bucket: string;
+  full: AvatarUploadTarget;
+  thumb: AvatarUploadTarget;
+}
+
+export interface CategoriesResponse {
+  // By position
+  categories: Category[];
+}
+
+export interface CategoryResponse {
+  category: Category;
+}
+
+export interface DeleteCategoryResponse {
+  success: true;
+  // Notes deleted along with the category
+  deletedNotes: number;
+}
+
+export interface ProfileSharesResponse {
+  shares: ProfileShare[];
+}
+
+export interface ProfileShareResponse {
+  share: ProfileShare;
+}
+
+export interface NotesResponse {
+  notes: Note[];
+}
+
+export interface GiftIdeasResponse {
+  giftIdeas: GiftIdea[];
+}
+
+export interface GiftIdeaResponse {
+  giftIdea: GiftIdea;
+}
+
+export interface GiftHistoryResponse {
+  // Most recently given first
+  history: GiftHistoryEntry[];
+}
+
+export interface DuplicateGiftsResponse {
+  duplicates: PreviouslyGiven[];
+}
+
+export interface OccasionsResponse {
+  occasions: Occasion[];
+}
+
+export interface OccasionResponse {
+  occasion: Occasion;
+}
+
+export interface UpcomingOccasionsResponse {
+  // The day the countdowns are relative to
+  from: string;
+  occasions: UpcomingOccasion[];
+}
+
+export interface BudgetsResponse {
+  budgets: Budget[];
+}
+
+export interface BudgetResponse {
+  budget: Budget;
+}
+
+// Budget vs actual for one currency. `budget` is null when nothing was
+// budgeted but money was still spent.
+export interface BudgetLine {
+  budgetId: string | null;
+  currency: string;
+  budget: number | null;
+  spent: number;
+}
+
+export interface OccasionBudgetSummary extends BudgetLine {
+  occasionId: string;
+  occasionName: string;
+}
+
+export interface ProfileBudgetSummary extends BudgetLine {
+  profileId: string;
+  profileName: string;
+  // Per-occasion lines; their spend is also included in the profile's
+  occasions: OccasionBudgetSummary[];
+}
+
+export interface BudgetSummaryResponse {
+  year: number;
+  profiles: ProfileBudgetSummary[];
+  // Profile-level budget and spend summed per currency
+  totals: { currency: string; budget: number; spent: number }[];
+}
+
+export interface RemindersResponse {
+  // Due reminders (remindOn on or before today), newest first
+  reminders: Reminder[];
+  unreadCount: number;
+}
+
+export interface LimitsResponse {
+  limits: UserLimits;
+}
+
+export interface SuccessResponse {
+  success: true;
+  message?: string;
+}
+
+export interface SubmitNotesResponse extends SuccessResponse {
+  // Ids of the submitted notes, in request order (generated when omitted)
+  noteIds: string[];
+  // New updatedAt of every submitted note, to send as baseUpdatedAt next
+  updatedAt: string;
+  // Notes whose text was embedded; the others were unchanged and kept their
+  // vector
+  embedded: number;
+  unchanged: number;
+}
+
+export interface RelevantNote {
+  noteId: string;
+  entry: string;
+  profileId: string;
+  categoryId: string;
+  // Per-signal scores; null when the note wasn't among that signal's
+  // candidates. `vector` is cosine similarity, `keyword` is ts_rank_cd,
+  // `fused` is the weighted reciprocal rank fusion of both.
+  scores: {
+    vector: number | null;
+    keyword: number | null;
+    fused: number;
+  };
+  relevanceScore: string;
+  amazonSearchUrl: string;
+}
+
+export interface SearchGiftsResponse {
+  query?: string;
+  usedProfile?: string;
+  staleNotesSkipped?: number;
+  // Matches left out because they mention a dislike or allergy
+  excludedNotes?: number;
+  // Attributes of the searched profile, when there was one
+  profileAttributes?: ProfileAttributes;
+  relevantNotes?: RelevantNote[];
+  message: string;
+}
+
+export interface SuggestedGift {
+  title: string;
+  description: string;
+  // Why this fits the person, referring to the cited notes
+  rationale: string;
+  estimatedPrice: number | null;
+  // Ids of the retrieved notes the idea is based on
+  noteIds: string[];
+  searchUrl: string;
+  // Similar gifts already given to this person, most similar first
+  previouslyGiven: PreviouslyGiven[];
+}
+
+export interface SuggestGiftsResponse {
+  profileId: string;
+  model: string;
+  ideas: SuggestedGift[];
+  // The notes given to the model as context
+  notesUsed: RelevantNote[];
+  message?: string;
+}
+
+export interface SignupResponse {
+  user: { id: string; email?: string };
+}
+
+// Body of every non-2xx response. `fields` is only present on 400s caused
+// by schema validation and lists each invalid field.
+export interface ApiErrorBody {
+  error: string;
+  code?: string;
+  fields?: ValidationIssue[];
+  // Set with code "quota_exceeded"
+  quota?: QuotaName;
+  limit?: number;
+  // Set with code "conflict" (409 from /submit)
+  conflicts?: NoteConflict[];
+}
+
+// A submitted note that was saved elsewhere after the client's copy
+export interface NoteConflict {
+  noteId: string;
+  // The note as it is on the server now
+  server: Note;
+}
+
+export function invalidRequestBody(issues: ValidationIssue[]): ApiErrorBody {
+  return {
+    error: "Invalid request body",
+    code: "invalid_request",
+    fields: issues,
+  };
+}
+
+// Malformed ids in the URL, e.g. /profiles/not-a-uuid/notes
+export function invalidPathParams(issues: ValidationIssue[]): ApiErrorBody {
+  return {
+    error: "Invalid path parameters",
+    code: "invalid_request",
+    fields: issues,
+  };
+}
+
+export function notesConflict(conflicts: NoteConflict[]): ApiErrorBody {
+  return {
+    error: "Some notes were changed on another device",
+    code: "conflict",
+    conflicts,
+  };
+}
+
+export function quotaExceeded(
+  quota: QuotaName,
+  limit: number,
+  error: string
+): ApiErrorBody {
+  return { error, code: "quota_exceeded", quota, limit };
+}
+
+export type { ValidationIssue };
@@ -0,0 +1,69 @@
+// Date helpers for occasions, shared by the edge function and the frontend so
+// both agree on when a birthday next comes round. Dates are plain calendar
+// dates ("YYYY-MM-DD") with no time zone; arithmetic is done in UTC.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return { year, month, day };
+}
+
+function format(year: number, month: number, day: number) {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// True for a real calendar date in "YYYY-MM-DD" form (rejects 2026-02-30)
+export function isValidDate(date: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const { year, month, day } = parseDate(date);
+  return (
+    month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+  );
+}
+
+// Today's date in the caller's local time zone
+export function localToday(now = new Date()) {
+  return format(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+// Whole days from `from` to `to`; negative when `to` is earlier
+export function daysBetween(from: string, to: string) {
+  const a = parseDate(from);
+  const b = parseDate(to);
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) -
+      Date.UTC(a.year, a.month - 1, a.day)) /
+      DAY_MS
+  );
+}
+
+// The first date on or after `today` on which the occasion falls, or null
+// for a one-off date that has already passed. Yearly Feb 29 occasions fall
+// on Feb 28 in non-leap years.
+export function nextOccurrence(
+  date: string,
+  recurrence: "yearly" | "once",
+  today: string
+) {
+  // Not reached yet (one-off, or a yearly date whose first time is ahead)
+  if (daysBetween(today, date) >= 0) return date;
+  if (recurrence === "once") return null;
+
+  const { month, day } = parseDate(date);
+  const { year } = parseDate(today);
+
+  for (const candidateYear of [year, year + 1]) {
+    const candidate = format(
+      candidateYear,
+      month,
+      Math.min(day, daysInMonth(candidateYear, month))
+    );
+    if (daysBetween(today, candidate) >= 0) return candidate;
+  }
+  return null;
+}
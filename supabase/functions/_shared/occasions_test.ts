@@ -0,0 +1,81 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { daysBetween, isValidDate, nextOccurrence } from "./occasions.ts";
+
+Deno.test("nextOccurrence moves a yearly date to this year or next", () => {
+  assertEquals(
+    nextOccurrence("1990-12-25", "yearly", "2026-10-19"),
+    "2026-12-25"
+  );
+  assertEquals(
+    nextOccurrence("1990-03-01", "yearly", "2026-10-19"),
+    "2027-03-01"
+  );
+});
+
+Deno.test("nextOccurrence counts today as the next occurrence", () => {
+  assertEquals(
+    nextOccurrence("1990-10-19", "yearly", "2026-10-19"),
+    "2026-10-19"
+  );
+  assertEquals(
+    nextOccurrence("2026-10-19", "once", "2026-10-19"),
+    "2026-10-19"
+  );
+});
+
+Deno.test("nextOccurrence falls back to Feb 28 outside leap years", () => {
+  assertEquals(
+    nextOccurrence("2000-02-29", "yearly", "2026-01-10"),
+    "2026-02-28"
+  );
+  assertEquals(
+    nextOccurrence("2000-02-29", "yearly", "2027-03-01"),
+    "2028-02-29"
+  );
+  assertEquals(
+    nextOccurrence("2000-02-29", "yearly", "2028-02-01"),
+    "2028-02-29"
+  );
+});
+
+Deno.test(
+  "nextOccurrence rolls a Feb 29 birthday over once Feb 28 has passed",
+  () => {
+    assertEquals(
+      nextOccurrence("2000-02-29", "yearly", "2026-03-01"),
+      "2027-02-28"
+    );
+  }
+);
+
+Deno.test("nextOccurrence keeps a future date as is", () => {
+  assertEquals(
+    nextOccurrence("2030-06-01", "yearly", "2026-10-19"),
+    "2030-06-01"
+  );
+  assertEquals(
+    nextOccurrence("2027-01-05", "once", "2026-10-19"),
+    "2027-01-05"
+  );
+});
+
+Deno.test(
+  "nextOccurrence returns null for a one-off date that has passed",
+  () => {
+    assertEquals(nextOccurrence("2026-10-18", "once", "2026-10-19"), null);
+    assertEquals(nextOccurrence("2020-02-29", "once", "2026-10-19"), null);
+  }
+);
+
+Deno.test("daysBetween counts calendar days across years", () => {
+  assertEquals(daysBetween("2026-12-31", "2027-01-01"), 1);
+  assertEquals(daysBetween("2028-02-28", "2028-03-01"), 2);
+  assertEquals(daysBetween("2026-10-19", "2026-10-12"), -7);
+});
+
+Deno.test("isValidDate rejects dates that don't exist", () => {
+  assertEquals(isValidDate("2028-02-29"), true);
+  assertEquals(isValidDate("2026-02-29"), false);
+  assertEquals(isValidDate("2026-13-01"), false);
+  assertEquals(isValidDate("2026-1-01"), false);
+});
@@ -0,0 +1,203 @@
+// Tiny runtime validation helpers shared by the edge function (Deno) and the
+// frontend (Vite). Deliberately dependency-free so both runtimes can import
+// this file directly.
+
+export interface ValidationIssue {
+  // Dotted path to the offending field, e.g. "notes.2.entry"
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  { success: true; data: T } | { success: false; issues: ValidationIssue[] };
+
+export type Schema<T> = (input: unknown, path?: string) => ValidationResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(data: T): ValidationResult<T> => ({ success: true, data });
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({
+  success: false,
+  issues: [{ path: path || "(root)", message }],
+});
+
+const join = (path: string, key: string | number) =>
+  path ? `${path}.${key}` : String(key);
+
+export function string(
+  options: { trim?: boolean; min?: number; max?: number; pattern?: RegExp } = {}
+): Schema<string> {
+  return (input, path = "") => {
+    if (typeof input !== "string") return fail(path, "Expected a string");
+    const value = options.trim ? input.trim() : input;
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(
+        path,
+        options.min === 1
+          ? "Must not be empty"
+          : `Must be at least ${options.min} characters`
+      );
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(path, `Must be at most ${options.max} characters`);
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      return fail(path, "Has an invalid format");
+    }
+    return ok(value);
+  };
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids of rows in uuid columns; anything else would fail the cast in Postgres
+export function uuid(): Schema<string> {
+  return (input, path = "") => {
+    if (typeof input !== "string") return fail(path, "Expected a string");
+    return UUID_PATTERN.test(input) ? ok(input) : fail(path, "Expected a UUID");
+  };
+}
+
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// ISO 8601 date-times as sent by Date.toISOString(), for timestamptz
+// columns. Date.parse alone would let through e.g. Feb 30, which Postgres
+// rejects.
+export function timestamp(): Schema<string> {
+  return (input, path = "") => {
+    if (typeof input !== "string") return fail(path, "Expected a string");
+    const match = TIMESTAMP_PATTERN.exec(input);
+    const [year, month, day] = (match ?? []).slice(1, 4).map(Number);
+    return match &&
+      !Number.isNaN(Date.parse(input)) &&
+      new Date(Date.UTC(year, month - 1, day)).getUTCDate() === day
+      ? ok(input)
+      : fail(path, "Expected an ISO 8601 timestamp");
+  };
+}
+
+export function number(
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return (input, path = "") => {
+    if (typeof input !== "number" || !Number.isFinite(input)) {
+      return fail(path, "Expected a number");
+    }
+    if (options.integer && !Number.isInteger(input)) {
+      return fail(path, "Expected an integer");
+    }
+    if (options.min !== undefined && input < options.min) {
+      return fail(path, `Must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && input > options.max) {
+      return fail(path, `Must be at most ${options.max}`);
+    }
+    return ok(input);
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (input, path = "") =>
+    typeof input === "boolean" ? ok(input) : fail(path, "Expected a boolean");
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (input, path = "") =>
+    values.includes(input as T)
+      ? ok(input as T)
+      : fail(path, `Expected one of: ${values.join(", ")}`);
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (input, path = "") =>
+    input === undefined || input === null ? ok(undefined) : schema(input, path);
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (input, path = "") =>
+    input === undefined || input === null ? ok(null) : schema(input, path);
+}
+
+// Keeps missing (undefined) and explicit null apart, e.g. for PATCH bodies
+// where null clears a field and a missing key leaves it untouched
+export function nullish<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return (input, path = "") =>
+    input === undefined || input === null ? ok(input) : schema(input, path);
+}
+
+// Falls back to `value` when the field is missing
+export function withDefault<T>(schema: Schema<T>, value: T): Schema<T> {
+  return (input, path = "") =>
+    input === undefined || input === null ? ok(value) : schema(input, path);
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { max?: number } = {}
+): Schema<T[]> {
+  return (input, path = "") => {
+    if (!Array.isArray(input)) return fail(path, "Expected an array");
+    if (options.max !== undefined && input.length > options.max) {
+      return fail(path, `Must contain at most ${options.max} items`);
+    }
+
+    const data: T[] = [];
+    const issues: ValidationIssue[] = [];
+    input.forEach((value, index) => {
+      const result = item(value, join(path, index));
+      if (result.success) data.push(result.data);
+      else issues.push(...result.issues);
+    });
+
+    return issues.length ? { success: false, issues } : ok(data);
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+// Validates every field in `shape` and drops keys that aren't in it
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return (input, path = "") => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return fail(path, "Expected an object");
+    }
+
+    const data: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema(
+        (input as Record<string, unknown>)[key],
+        join(path, key)
+      );
+      if (!result.success) issues.push(...result.issues);
+      else if (result.data !== undefined) data[key] = result.data;
+    }
+
+    return issues.length ? { success: false, issues } : ok(data as ObjectOf<S>);
+  };
+}
+
+// Extra cross-field check on top of an existing schema
+export function refine<T>(
+  schema: Schema<T>,
+  check: (value: T) => ValidationIssue | null
+): Schema<T> {
+  return (input, path = "") => {
+    const result = schema(input, path);
+    if (!result.success) return result;
+    const issue = check(result.data);
+    return issue ? { success: false, issues: [issue] } : result;
+  };
+}
@@ -0,0 +1,34 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { timestamp } from "./schema.ts";
+
+Deno.test("timestamp accepts what browsers and Postgres send", () => {
+  for (const value of [
+    "2026-10-19T12:34:56.789Z",
+    "2026-10-19T12:34:56.123456+00:00",
+    "2028-02-29T00:00:00-05:00",
+  ]) {
+    assertEquals(timestamp()(value), { success: true, data: value });
+  }
+});
+
+Deno.test("timestamp rejects values Postgres can't cast", () => {
+  for (const value of [
+    "",
+    "yesterday",
+    "2026-10-19",
+    "2026-02-30T00:00:00Z",
+    "2026-13-01T00:00:00Z",
+    "2026-10-19T24:00:00Z",
+    "2026-10-19T12:00:00",
+  ]) {
+    assertEquals(timestamp()(value, "notes.0.createdAt"), {
+      success: false,
+      issues: [
+        {
+          path: "notes.0.createdAt",
+          message: "Expected an ISO 8601 timestamp",
+        },
+      ],
+    });
+  }
+});
@@ -0,0 +1,51 @@
+import type { MiddlewareHandler } from "npm:hono";
+import { type AuthEnv, authError } from "./auth.ts";
+import { createRepositories } from "./repository.ts";
+import { idParamIssues } from "./validation.ts";
+import { invalidPathParams } from "../_shared/contracts.ts";
+
+// Profile ACL for every /profiles/:profileId route: the owner and the users
+// the profile is shared with (profile_shares) get in, anyone else gets the
+// same 404 as for a profile that doesn't exist. Viewers are limited to
+// reads. Routes then scope their queries by c.get("access").ownerId, since
+// a shared profile's data belongs to its owner.
+
+// POSTs under a profile that don't change anything
+const READ_ONLY_POSTS = ["/suggest", "/gifts/duplicates"];
+
+function isRead(method: string, path: string) {
+  return (
+    method === "GET" ||
+    (method === "POST" &&
+      READ_ONLY_POSTS.some((suffix) => path.endsWith(suffix)))
+  );
+}
+
+// Mount it on the profile routes with a wildcard rather than on single
+// routes, like requireAuth, so a new route can't forget the check
+export function requireProfileAccess(): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const profileId = c.req.param("profileId") ?? "";
+    const issues = idParamIssues({ profileId });
+    if (issues.length) return c.json(invalidPathParams(issues), 400);
+
+    let access;
+    try {
+      access = await createRepositories(c.get("supabase")).shares.access(
+        c.get("user").id,
+        profileId
+      );
+    } catch (error) {
+      console.log(`Error checking profile access: ${error}`);
+      return c.json({ error: "Failed to check profile access" }, 500);
+    }
+
+    if (!access) return c.json({ error: "Profile not found" }, 404);
+    if (access.role === "viewer" && !isRead(c.req.method, c.req.path)) {
+      return authError(c, "forbidden", "You can only view this profile");
+    }
+
+    c.set("access", access);
+    await next();
+  };
+}
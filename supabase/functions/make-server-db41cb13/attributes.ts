@@ -0,0 +1,58 @@
+import type { Profile, ProfileAttributes } from "../_shared/contracts.ts";
+
+// Profile attributes as used by search and suggestions: what to leave out
+// (dislikes and allergies) and how to describe the person to the LLM.
+
+// Lower-cased dislikes and allergies of a profile
+export function avoidedTerms(attributes: ProfileAttributes | undefined) {
+  return [...(attributes?.dislikes ?? []), ...(attributes?.allergies ?? [])]
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Avoided terms per profile id, for filtering results across profiles
+export function avoidedTermsByProfile(profiles: Profile[]) {
+  const terms: Record<string, string[]> = {};
+  for (const profile of profiles) {
+    const avoided = avoidedTerms(profile.attributes);
+    if (avoided.length > 0) terms[profile.id] = avoided;
+  }
+  return terms;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whether `text` has a word starting with one of the terms, so "nut" rules
+// out "nuts" but not "donut". Errs on the side of leaving things out.
+export function mentionsAny(text: string, terms: string[]) {
+  return terms.some((term) =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}`, "iu").test(text)
+  );
+}
+
+// One "Label: value" line per attribute that is set, for the LLM prompt
+export function describeAttributes(attributes: ProfileAttributes | undefined) {
+  if (!attributes) return [];
+  const list = (values?: string[]) =>
+    values && values.length > 0 ? values.join(", ") : undefined;
+  const sizes = Object.entries(attributes.sizes ?? {})
+    .filter(([, size]) => size)
+    .map(([kind, size]) => `${kind} ${size}`)
+    .join(", ");
+
+  const lines: [string, string | undefined][] = [
+    ["Relationship", attributes.relationship],
+    ["Birthday", attributes.birthday],
+    ["Age range", attributes.ageRange],
+    ["Sizes", sizes || undefined],
+    ["Favorite colors", list(attributes.favoriteColors)],
+    ["Likes", list(attributes.likes)],
+    ["Dislikes", list(attributes.dislikes)],
+    ["Allergies", list(attributes.allergies)],
+  ];
+  return lines
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${label}: ${value}`);
+}
@@ -0,0 +1,132 @@
+import type { Context, MiddlewareHandler } from "npm:hono";
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "jsr:@supabase/supabase-js@2";
+import type { ProfileAccess } from "./repository.ts";
+
+// Values the auth middleware puts on the Hono context for every route
+// behind it: read them with c.get("user") / c.get("supabase").
+export type AuthEnv = {
+  Variables: {
+    user: User;
+    supabase: SupabaseClient;
+    // Only on /profiles/:profileId routes, set by requireProfileAccess
+    access: ProfileAccess;
+  };
+};
+
+// Resolves a bearer token to a user, or null when it isn't valid.
+export type AuthVerifier = (
+  accessToken: string,
+  supabase: SupabaseClient
+) => Promise<User | null>;
+
+export type AuthErrorCode = "unauthorized" | "forbidden";
+
+// Every auth failure uses the same body so the frontend can branch on `code`
+export function authError(
+  c: Context,
+  code: AuthErrorCode,
+  message = code === "unauthorized" ? "Unauthorized" : "Forbidden"
+) {
+  return c.json({ error: message, code }, code === "unauthorized" ? 401 : 403);
+}
+
+// Service-role client; bypasses RLS so every query must filter by user
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+}
+
+export const supabaseAuthVerifier: AuthVerifier = async (
+  accessToken,
+  supabase
+) => {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(accessToken);
+  return error ? null : user;
+};
+
+let defaultVerifier: AuthVerifier = supabaseAuthVerifier;
+let defaultClientFactory: () => SupabaseClient = createServiceClient;
+
+// Swap how tokens are verified (and which client routes receive) for the
+// whole function, e.g. to inject a fake user and an in-memory client in tests.
+export function configureAuth(options: {
+  verifier?: AuthVerifier;
+  createClient?: () => SupabaseClient;
+}) {
+  if (options.verifier) defaultVerifier = options.verifier;
+  if (options.createClient) defaultClientFactory = options.createClient;
+}
+
+export function resetAuth() {
+  defaultVerifier = supabaseAuthVerifier;
+  defaultClientFactory = createServiceClient;
+}
+
+function bearerToken(c: Context) {
+  const [scheme, token] = (c.req.header("Authorization") ?? "").split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token : null;
+}
+
+// Verifies the bearer token once per request and exposes the user and a
+// service client on the context. Mount it on a router rather than on single
+// routes so a new route can't forget the check.
+export function requireAuth(
+  options: { verifier?: AuthVerifier } = {}
+): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const accessToken = bearerToken(c);
+    if (!accessToken) return authError(c, "unauthorized");
+
+    const supabase = defaultClientFactory();
+    let user: User | null = null;
+
+    try {
+      user = await (options.verifier ?? defaultVerifier)(accessToken, supabase);
+    } catch (error) {
+      console.log(`Error verifying access token: ${error}`);
+    }
+
+    if (!user) return authError(c, "unauthorized");
+
+    c.set("user", user);
+    c.set("supabase", supabase);
+    await next();
+  };
+}
+
+// Guards operator-only routes: the X-Admin-Key header must match
+// ADMIN_API_KEY. Only `supabase` is set on the context, there is no user.
+export function requireAdmin(): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const adminKey = Deno.env.get("ADMIN_API_KEY");
+    if (!adminKey || c.req.header("X-Admin-Key") !== adminKey) {
+      return authError(c, "unauthorized");
+    }
+
+    c.set("supabase", defaultClientFactory());
+    await next();
+  };
+}
+
+// Guards scheduled jobs: the X-Cron-Secret header must match CRON_SECRET.
+// Like requireAdmin, only `supabase` is set on the context.
+export function requireCronSecret(): MiddlewareHandler<AuthEnv> {
+  return async (c, next) => {
+    const secret = Deno.env.get("CRON_SECRET");
+    if (!secret || c.req.header("X-Cron-Secret") !== secret) {
+      return authError(c, "unauthorized");
+    }
+
+    c.set("supabase", defaultClientFactory());
+    await next();
+  };
+}
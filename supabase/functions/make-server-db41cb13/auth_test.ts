@@ -0,0 +1,89 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { Hono } from "npm:hono";
+import type { SupabaseClient, User } from "jsr:@supabase/supabase-js@2";
+import {
+  type AuthEnv,
+  type AuthVerifier,
+  configureAuth,
+  requireAuth,
+  resetAuth,
+} from "./auth.ts";
+
+const client = { fake: true } as unknown as SupabaseClient;
+const user = { id: "user-1" } as User;
+
+// Accepts only "good-token"
+const verifier: AuthVerifier = (accessToken) =>
+  Promise.resolve(accessToken === "good-token" ? user : null);
+
+function app(options?: Parameters<typeof requireAuth>[0]) {
+  const app = new Hono<AuthEnv>();
+  app.use("*", requireAuth(options));
+  app.get("/me", (c) =>
+    c.json({ id: c.get("user").id, injected: c.get("supabase") === client })
+  );
+  return app;
+}
+
+async function get(app: Hono<AuthEnv>, authorization?: string) {
+  const response = await app.request("/me", {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function withFakeAuth(fn: () => Promise<void>) {
+  return async () => {
+    configureAuth({ verifier, createClient: () => client });
+    try {
+      await fn();
+    } finally {
+      resetAuth();
+    }
+  };
+}
+
+Deno.test(
+  "requireAuth passes the verified user and client to routes",
+  withFakeAuth(async () => {
+    assertEquals(await get(app(), "Bearer good-token"), {
+      status: 200,
+      body: { id: "user-1", injected: true },
+    });
+    assertEquals((await get(app(), "bearer good-token")).status, 200);
+  })
+);
+
+Deno.test(
+  "requireAuth rejects missing, malformed and unknown tokens",
+  withFakeAuth(async () => {
+    const unauthorized = {
+      status: 401,
+      body: { error: "Unauthorized", code: "unauthorized" },
+    };
+    assertEquals(await get(app()), unauthorized);
+    assertEquals(await get(app(), "good-token"), unauthorized);
+    assertEquals(await get(app(), "Basic good-token"), unauthorized);
+    assertEquals(await get(app(), "Bearer other-token"), unauthorized);
+  })
+);
+
+Deno.test(
+  "requireAuth treats a failing verifier as unauthorized",
+  withFakeAuth(async () => {
+    const failing = app({ verifier: () => Promise.reject(new Error("down")) });
+    assertEquals((await get(failing, "Bearer good-token")).status, 401);
+  })
+);
+
+Deno.test(
+  "a verifier passed to requireAuth overrides the configured one",
+  withFakeAuth(async () => {
+    const other = app({
+      verifier: (accessToken) =>
+        Promise.resolve(accessToken === "other-token" ? user : null),
+    });
+    assertEquals((await get(other, "Bearer other-token")).status, 200);
+    assertEquals((await get(other, "Bearer good-token")).status, 401);
+  })
+);
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  AVATAR_BUCKET,
+  type AvatarUploadResponse,
+  type AvatarUploadTarget,
+} from "../_shared/contracts.ts";
+
+// Uploaded avatars. The browser crops and resizes the photo itself, asks for
+// signed upload URLs, uploads both sizes straight to Storage and then
+// confirms with the upload id; the edge function never handles image bytes.
+// Each upload gets its own folder, so a replaced avatar is never served from
+// a cache under the old URL.
+
+const FILES = { full: "full.webp", thumb: "thumb.webp" };
+
+function avatarFolder(userId: string, profileId: string, uploadId: string) {
+  return `${userId}/${profileId}/${uploadId}`;
+}
+
+export async function createAvatarUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  profileId: string
+): Promise<AvatarUploadResponse> {
+  const uploadId = crypto.randomUUID();
+  const folder = avatarFolder(userId, profileId, uploadId);
+  const bucket = supabase.storage.from(AVATAR_BUCKET);
+
+  const target = async (name: string): Promise<AvatarUploadTarget> => {
+    const { data, error } = await bucket.createSignedUploadUrl(
+      `${folder}/${name}`
+    );
+    if (error) throw new Error(error.message);
+    return { path: data.path, token: data.token, signedUrl: data.signedUrl };
+  };
+
+  const [full, thumb] = await Promise.all([
+    target(FILES.full),
+    target(FILES.thumb),
+  ]);
+  return { uploadId, bucket: AVATAR_BUCKET, full, thumb };
+}
+
+// Public URLs of a finished upload, or null until both files are there
+export async function uploadedAvatar(
+  supabase: SupabaseClient,
+  userId: string,
+  profileId: string,
+  uploadId: string
+) {
+  const folder = avatarFolder(userId, profileId, uploadId);
+  const bucket = supabase.storage.from(AVATAR_BUCKET);
+
+  const { data, error } = await bucket.list(folder);
+  if (error) throw new Error(error.message);
+  const names = new Set((data ?? []).map((file) => file.name));
+  if (!names.has(FILES.full) || !names.has(FILES.thumb)) return null;
+
+  return {
+    url: bucket.getPublicUrl(`${folder}/${FILES.full}`).data.publicUrl,
+    thumbUrl: bucket.getPublicUrl(`${folder}/${FILES.thumb}`).data.publicUrl,
+    path: folder,
+  };
+}
+
+// Deletes the files of a replaced or removed avatar. Failures are only
+// logged: the profile no longer points at them either way.
+export async function removeAvatarFiles(
+  supabase: SupabaseClient,
+  folder: string | null | undefined
+) {
+  if (!folder) return;
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .remove([`${folder}/${FILES.full}`, `${folder}/${FILES.thumb}`]);
+  if (error) {
+    console.log(`Error removing avatar files in ${folder}: ${error.message}`);
+  }
+}
@@ -0,0 +1,119 @@
+import type {
+  Budget,
+  BudgetSummaryResponse,
+  Occasion,
+  OccasionBudgetSummary,
+  Profile,
+  ProfileBudgetSummary,
+} from "../_shared/contracts.ts";
+import type { SpendRecord } from "./repository.ts";
+
+// Money is summed as floats; keep the totals to cents
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Budget vs actual for `year`. Lines are kept per currency: a budget in EUR
+// and gifts bought in USD for the same profile show up as two lines rather
+// than being converted. Profiles with neither a budget nor spend are left out.
+export function summarizeBudgets(
+  year: number,
+  profiles: Profile[],
+  occasions: Occasion[],
+  budgets: Budget[],
+  spend: SpendRecord[]
+): BudgetSummaryResponse {
+  const profileNames = new Map(profiles.map((p) => [p.id, p.name]));
+  const occasionNames = new Map(occasions.map((o) => [o.id, o.name]));
+
+  const profileLines = new Map<string, ProfileBudgetSummary>();
+  const occasionLines = new Map<string, OccasionBudgetSummary>();
+
+  const profileLine = (profileId: string, currency: string) => {
+    const key = `${profileId}:${currency}`;
+    let line = profileLines.get(key);
+    if (!line) {
+      line = {
+        profileId,
+        profileName: profileNames.get(profileId) ?? "",
+        budgetId: null,
+        currency,
+        budget: null,
+        spent: 0,
+        occasions: [],
+      };
+      profileLines.set(key, line);
+    }
+    return line;
+  };
+
+  const occasionLine = (
+    profileId: string,
+    occasionId: string,
+    currency: string
+  ) => {
+    const key = `${occasionId}:${currency}`;
+    let line = occasionLines.get(key);
+    if (!line) {
+      line = {
+        occasionId,
+        occasionName: occasionNames.get(occasionId) ?? "",
+        budgetId: null,
+        currency,
+        budget: null,
+        spent: 0,
+      };
+      occasionLines.set(key, line);
+      profileLine(profileId, currency).occasions.push(line);
+    }
+    return line;
+  };
+
+  for (const budget of budgets) {
+    if (!profileNames.has(budget.profileId)) continue;
+    const line = budget.occasionId
+      ? occasionLine(budget.profileId, budget.occasionId, budget.currency)
+      : profileLine(budget.profileId, budget.currency);
+    line.budgetId = budget.id;
+    line.budget = budget.amount;
+  }
+
+  for (const record of spend) {
+    if (!profileNames.has(record.profileId)) continue;
+    const line = profileLine(record.profileId, record.currency);
+    line.spent = roundCents(line.spent + record.amount);
+    if (record.occasionId) {
+      const occasion = occasionLine(
+        record.profileId,
+        record.occasionId,
+        record.currency
+      );
+      occasion.spent = roundCents(occasion.spent + record.amount);
+    }
+  }
+
+  const totals = new Map<
+    string,
+    { currency: string; budget: number; spent: number }
+  >();
+  for (const line of profileLines.values()) {
+    const total = totals.get(line.currency) ?? {
+      currency: line.currency,
+      budget: 0,
+      spent: 0,
+    };
+    total.budget = roundCents(total.budget + (line.budget ?? 0));
+    total.spent = roundCents(total.spent + line.spent);
+    totals.set(line.currency, total);
+  }
+
+  return {
+    year,
+    profiles: [...profileLines.values()].sort(
+      (a, b) =>
+        a.profileName.localeCompare(b.profileName) ||
+        a.currency.localeCompare(b.currency)
+    ),
+    totals: [...totals.values()],
+  };
+}
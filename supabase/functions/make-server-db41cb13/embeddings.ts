@@ -0,0 +1,258 @@
+import {
+  GoogleGenerativeAI,
+  type GenerativeModel,
+} from "npm:@google/generative-ai";
+
+// Common interface for anything that can turn note text into a vector.
+// Routes only ever talk to this, so the backing model can be swapped via env.
+export interface EmbeddingProvider {
+  // Stable identifier stored alongside vectors, e.g. "gemini/text-embedding-004"
+  readonly modelId: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+type EnvGetter = (name: string) => string | undefined;
+
+const DEFAULT_DIMENSIONS = 768;
+
+// Empty input gets a zero vector so a blank note never breaks a batch
+function zeroVector(dimensions: number) {
+  return new Array(dimensions).fill(0);
+}
+
+function isBlank(text: string | null | undefined) {
+  return !(text ?? "").toString().trim();
+}
+
+// Runs `embedMany` over the non-empty texts only and stitches zero vectors
+// back in for the blank ones, preserving input order.
+async function embedNonBlank(
+  texts: string[],
+  dimensions: number,
+  embedMany: (texts: string[]) => Promise<number[][]>
+) {
+  const results: number[][] = texts.map(() => zeroVector(dimensions));
+  const pending = texts
+    .map((text, index) => ({ text: (text ?? "").toString(), index }))
+    .filter(({ text }) => !isBlank(text));
+
+  if (pending.length === 0) return results;
+
+  const vectors = await embedMany(pending.map(({ text }) => text));
+  pending.forEach(({ index }, i) => {
+    results[index] = vectors[i] ?? zeroVector(dimensions);
+  });
+  return results;
+}
+
+// ---- Gemini ----
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  readonly dimensions = DEFAULT_DIMENSIONS;
+  private model: GenerativeModel;
+
+  // text-embedding-004 (or embedding-001 depending on your account)
+  constructor(apiKey: string, model = "text-embedding-004") {
+    this.modelId = `gemini/${model}`;
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async embed(text: string) {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  embedBatch(texts: string[]) {
+    return embedNonBlank(texts, this.dimensions, async (batch) => {
+      const vectors: number[][] = [];
+      // batchEmbedContents accepts at most 100 requests per call
+      for (let i = 0; i < batch.length; i += 100) {
+        const result = await this.model.batchEmbedContents({
+          requests: batch.slice(i, i + 100).map((text) => ({
+            content: { role: "user", parts: [{ text }] },
+          })),
+        });
+        vectors.push(...result.embeddings.map((e) => e.values || []));
+      }
+      return vectors;
+    });
+  }
+}
+
+// ---- OpenAI-compatible (OpenAI, Azure proxies, Ollama, LM Studio, ...) ----
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+
+  constructor(
+    private options: {
+      baseUrl: string;
+      apiKey?: string;
+      model: string;
+      dimensions: number;
+    }
+  ) {
+    this.modelId = `openai/${options.model}`;
+  }
+
+  get dimensions() {
+    return this.options.dimensions;
+  }
+
+  async embed(text: string) {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  embedBatch(texts: string[]) {
+    return embedNonBlank(texts, this.dimensions, async (batch) => {
+      const response = await fetch(
+        `${this.options.baseUrl.replace(/\/$/, "")}/embeddings`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(this.options.apiKey
+              ? { Authorization: `Bearer ${this.options.apiKey}` }
+              : {}),
+          },
+          body: JSON.stringify({
+            model: this.options.model,
+            input: batch,
+            dimensions: this.options.dimensions,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(
+          `Embedding request failed (${response.status}): ${await response.text()}`
+        );
+      }
+
+      const { data } = await response.json();
+      // The API may return items out of order; `index` is authoritative
+      return (data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    });
+  }
+}
+
+// ---- Local hashing / n-gram (no API key, fully deterministic) ----
+// Feature-hashes lowercase word unigrams, word bigrams and character
+// trigrams into a fixed-size vector, then L2-normalises it. Quality is far
+// below a real model but similar wording lands close together, which is
+// enough to exercise the notes -> search pipeline offline.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+
+  constructor(readonly dimensions = DEFAULT_DIMENSIONS) {
+    this.modelId = `local/hash-ngram-v1-${dimensions}`;
+  }
+
+  async embed(text: string) {
+    if (isBlank(text)) return zeroVector(this.dimensions);
+
+    const vector = zeroVector(this.dimensions);
+    for (const feature of this.features(text)) {
+      const hash = fnv1a(feature);
+      // Use one bit of the hash as the sign to reduce collision bias
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude === 0 ? vector : vector.map((v) => v / magnitude);
+  }
+
+  embedBatch(texts: string[]) {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+
+  private features(text: string) {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features: string[] = [];
+
+    words.forEach((word, i) => {
+      features.push(`w:${word}`);
+      if (i > 0) features.push(`b:${words[i - 1]} ${word}`);
+
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        features.push(`c:${padded.slice(j, j + 3)}`);
+      }
+    });
+
+    return features;
+  }
+}
+
+// SHA-256 of the exact text that was embedded, hex encoded. Stored next to
+// every vector so we can tell when a note changed without re-embedding it.
+export async function hashContent(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode((text ?? "").toString())
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// 32-bit FNV-1a, returned as an unsigned integer
+function fnv1a(input: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Picks a provider from env:
+//   EMBEDDING_PROVIDER   gemini | openai | local (default: gemini when
+//                        GEMINI_API_KEY is set, otherwise local)
+//   EMBEDDING_MODEL      model name for gemini/openai
+//   EMBEDDING_DIMENSIONS vector size for openai/local (default 768)
+//   OPENAI_API_KEY, OPENAI_BASE_URL for the OpenAI-compatible provider
+export function createEmbeddingProvider(
+  env: EnvGetter = (name) => Deno.env.get(name)
+): EmbeddingProvider {
+  const geminiKey = env("GEMINI_API_KEY");
+  const providerName = (
+    env("EMBEDDING_PROVIDER") ?? (geminiKey ? "gemini" : "local")
+  ).toLowerCase();
+  const model = env("EMBEDDING_MODEL");
+  const dimensions = Number(env("EMBEDDING_DIMENSIONS")) || DEFAULT_DIMENSIONS;
+
+  switch (providerName) {
+    case "gemini":
+      if (!geminiKey) {
+        throw new Error(
+          "EMBEDDING_PROVIDER=gemini requires GEMINI_API_KEY to be set."
+        );
+      }
+      return new GeminiEmbeddingProvider(geminiKey, model);
+
+    case "openai":
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl: env("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey: env("OPENAI_API_KEY"),
+        model: model ?? "text-embedding-3-small",
+        dimensions,
+      });
+
+    case "local":
+      if (!env("EMBEDDING_PROVIDER")) {
+        console.warn(
+          "Warning: GEMINI_API_KEY is not set. Falling back to the local hashing embedding provider."
+        );
+      }
+      return new LocalHashEmbeddingProvider(dimensions);
+
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${providerName}'`);
+  }
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { GiftIdea, PreviouslyGiven } from "../_shared/contracts.ts";
+import type { EmbeddingProvider } from "./embeddings.ts";
+import { consumeEmbeddingQuota } from "./quotas.ts";
+import { createRepositories } from "./repository.ts";
+
+type EnvGetter = (name: string) => string | undefined;
+
+const DEFAULT_MIN_SIMILARITY = 0.8;
+
+// How alike two gift titles must be to count as "the same thing again",
+// from DUPLICATE_GIFT_MIN_SIMILARITY (cosine similarity, 0-1)
+export function duplicateMinSimilarity(
+  env: EnvGetter = (name) => Deno.env.get(name)
+) {
+  const value = Number(env("DUPLICATE_GIFT_MIN_SIMILARITY"));
+  return value > 0 && value <= 1 ? value : DEFAULT_MIN_SIMILARITY;
+}
+
+// Adds a gift idea that was just marked "given" to the profile's history.
+// An embedding failure doesn't lose the entry: it is stored without a
+// vector and embedded on the next duplicate check.
+export async function recordGivenGift(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  userId: string,
+  gift: GiftIdea
+) {
+  const embedding = await provider.embed(gift.title).then(
+    (vector) => ({
+      embedding: vector,
+      embeddingModel: provider.modelId,
+      embeddingDim: vector.length,
+    }),
+    (error) => {
+      console.log(`Error embedding gift history title: ${error}`);
+      return null;
+    }
+  );
+
+  return createRepositories(supabase).giftHistory.record(
+    userId,
+    {
+      profileId: gift.profileId,
+      giftIdeaId: gift.id,
+      title: gift.title,
+      price: gift.price,
+      currency: gift.currency,
+      occasion: gift.occasion,
+      givenOn: gift.statusChangedAt.slice(0, 10),
+    },
+    embedding
+  );
+}
+
+// For each title, the earlier gifts to the profile that look like it. The
+// profile's history is brought up to date with the current model first;
+// histories are short, so this is done inline rather than in the background.
+// Those embeddings count against quotaUserId's allowance (the requesting
+// user, default: userId); when it is used up the stale entries are skipped
+// and can't match until a later check.
+export async function findPreviouslyGiven(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  userId: string,
+  profileId: string,
+  titles: string[],
+  {
+    minScore = duplicateMinSimilarity(),
+    limit = 3,
+    quotaUserId = userId,
+  }: { minScore?: number; limit?: number; quotaUserId?: string } = {}
+): Promise<PreviouslyGiven[][]> {
+  if (titles.length === 0) return [];
+  const repo = createRepositories(supabase).giftHistory;
+
+  const stale = await repo.listStale(userId, profileId, {
+    modelId: provider.modelId,
+    dimensions: provider.dimensions,
+  });
+  if (
+    stale.length > 0 &&
+    !(await consumeEmbeddingQuota(supabase, quotaUserId, stale.length))
+  ) {
+    const vectors = await provider.embedBatch(
+      stale.map((entry) => entry.title)
+    );
+    await Promise.all(
+      stale.map((entry, i) =>
+        repo.setEmbedding(userId, entry.id, {
+          embedding: vectors[i],
+          embeddingModel: provider.modelId,
+          embeddingDim: vectors[i].length,
+        })
+      )
+    );
+  }
+
+  const embeddings = await provider.embedBatch(titles);
+  return Promise.all(
+    embeddings.map((embedding) =>
+      repo.match(userId, profileId, {
+        embedding,
+        modelId: provider.modelId,
+        limit,
+        minScore,
+      })
+    )
+  );
+}
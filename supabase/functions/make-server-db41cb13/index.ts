@@ -1,22 +1,96 @@
 import { Hono } from "npm:hono";
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { GoogleGenerativeAI } from "npm:@google/generative-ai";
-import * as kv from "./kv_store.tsx";
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createRepositories } from "./repository.ts";
+import { HTTPException } from "npm:hono/http-exception";
+import { createEmbeddingProvider, hashContent } from "./embeddings.ts";
+import { reembedStaleNotes } from "./reembed.ts";
+import { requireProfileAccess } from "./access.ts";
+import {
+  type AuthEnv,
+  authError,
+  createServiceClient,
+  requireAdmin,
+  requireAuth,
+  requireCronSecret,
+} from "./auth.ts";
+import { idParamIssues, validateIdParams, validateJson } from "./validation.ts";
+import { searchNotes } from "./search.ts";
+import { createLlmProvider } from "./llm.ts";
+import { generateGiftSuggestions } from "./suggestions.ts";
+import { generateReminders } from "./reminders.ts";
+import { summarizeBudgets } from "./budgets.ts";
+import { findPreviouslyGiven, recordGivenGift } from "./history.ts";
+import { avoidedTermsByProfile } from "./attributes.ts";
+import {
+  createAvatarUpload,
+  removeAvatarFiles,
+  uploadedAvatar,
+} from "./avatars.ts";
+import {
+  checkNoteQuota,
+  checkProfileQuota,
+  consumeEmbeddingQuota,
+  getUserLimits,
+  refundEmbeddingQuota,
+} from "./quotas.ts";
+import {
+  checkDuplicateGiftRequestSchema,
+  createGiftIdeaRequestSchema,
+  createOccasionRequestSchema,
+  createProfileRequestSchema,
+  type GiftIdea,
+  type GiftStatus,
+  invalidRequestBody,
+  markRemindersRequestSchema,
+  notesConflict,
+  reorderCategoriesRequestSchema,
+  searchGiftsRequestSchema,
+  type SearchGiftsResponse,
+  setAvatarRequestSchema,
+  shareProfileRequestSchema,
+  setBudgetRequestSchema,
+  signupRequestSchema,
+  submitNotesRequestSchema,
+  suggestGiftsRequestSchema,
+  type UpcomingOccasion,
+  updateCategoryRequestSchema,
+  updateGiftIdeaRequestSchema,
+  updateOccasionRequestSchema,
+  updateProfileRequestSchema,
+  updateShareRequestSchema,
+} from "../_shared/contracts.ts";
+import {
+  daysBetween,
+  isValidDate,
+  localToday,
+  nextOccurrence,
+} from "../_shared/occasions.ts";
 
 const app = new Hono();
 
-// ---- Gemini embedding client ----
-const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-if (!GEMINI_API_KEY) {
-  console.warn("Warning: GEMINI_API_KEY is not set. Embedding generation will fail.");
-}
-const genAI = GEMINI_API_KEY ? new GoogleGenerativeAI(GEMINI_API_KEY) : null;
-// text-embedding-004 (or embedding-001 depending on your account)
-const embeddingModel = genAI
-  ? genAI.getGenerativeModel({ model: "text-embedding-004" })
-  : null;
+// Every route on `api` requires a valid bearer token (see auth.ts);
+// `admin` routes require the X-Admin-Key header instead.
+const api = new Hono<AuthEnv>();
+api.use("*", requireAuth());
+// Owner and collaborators only; sets c.get("access") (see access.ts)
+api.use("/profiles/:profileId/*", requireProfileAccess());
+
+const admin = new Hono<AuthEnv>();
+admin.use("*", requireAdmin());
+
+// Scheduled jobs (pg_cron, or curl locally) authenticate with X-Cron-Secret
+const cron = new Hono<AuthEnv>();
+cron.use("*", requireCronSecret());
+
+// ---- Embedding provider (Gemini / OpenAI-compatible / local, see embeddings.ts) ----
+const embeddingProvider = createEmbeddingProvider();
+console.log(`Using embedding model ${embeddingProvider.modelId}`);
+
+// ---- LLM provider for /suggest (Gemini / OpenAI-compatible / local stub, see llm.ts) ----
+const llmProvider = createLlmProvider();
+console.log(`Using LLM ${llmProvider.modelId}`);
 
 // Enable logger
 app.use("*", logger(console.log));
@@ -26,13 +100,31 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
-    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-Admin-Key",
+      "X-Cron-Secret",
+    ],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length"],
     maxAge: 600,
   })
 );
 
+// Malformed JSON and other HTTPExceptions get the same JSON error body as
+// everything else
+app.onError((error, c) => {
+  if (error instanceof HTTPException) {
+    return c.json(
+      { error: error.message, code: "invalid_request" },
+      error.status
+    );
+  }
+  console.log(`Unhandled error: ${error}`);
+  return c.json({ error: "Internal server error" }, 500);
+});
+
 // Health check endpoint
 app.get("/make-server-db41cb13/health", (c) => {
   return c.json({
@@ -41,257 +133,281 @@ app.get("/make-server-db41cb13/health", (c) => {
 });
 
 // Sign up endpoint
-app.post("/make-server-db41cb13/signup", async (c) => {
-  try {
-    const { email, password, name } = await c.req.json();
+app.post(
+  "/make-server-db41cb13/signup",
+  validateJson(signupRequestSchema),
+  async (c) => {
+    try {
+      const { email, password, name } = c.req.valid("json");
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+      const supabase = createServiceClient();
 
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: {
-        name,
-      },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true,
-    });
+      const { data, error } = await supabase.auth.admin.createUser({
+        email,
+        password,
+        user_metadata: {
+          name,
+        },
+        // Automatically confirm the user's email since an email server hasn't been configured.
+        email_confirm: true,
+      });
+
+      if (error) {
+        console.log(`Error creating user during signup: ${error.message}`);
+        return c.json(
+          {
+            error: error.message,
+          },
+          400
+        );
+      }
 
-    if (error) {
-      console.log(`Error creating user during signup: ${error.message}`);
+      return c.json({
+        user: data.user,
+      });
+    } catch (error) {
+      console.log(`Unexpected error in signup endpoint: ${error}`);
       return c.json(
         {
-          error: error.message,
+          error: "Failed to sign up user",
         },
-        400
+        500
       );
     }
+  }
+);
+
+// Get the user's own profiles, then the ones shared with them
+api.get("/profiles", async (c) => {
+  try {
+    const user = c.get("user");
+    const repo = createRepositories(c.get("supabase"));
+
+    const [owned, shared] = await Promise.all([
+      repo.profiles.listByUser(user.id),
+      repo.shares.listSharedWith(user.id),
+    ]);
 
     return c.json({
-      user: data.user,
+      profiles: [
+        ...owned.map((profile) => ({ ...profile, role: "owner" as const })),
+        ...shared,
+      ],
     });
   } catch (error) {
-    console.log(`Unexpected error in signup endpoint: ${error}`);
+    console.log(`Error fetching profiles: ${error}`);
     return c.json(
       {
-        error: "Failed to sign up user",
+        error: "Failed to fetch profiles",
       },
       500
     );
   }
 });
 
-// Get all profiles for a user
-app.get("/make-server-db41cb13/profiles", async (c) => {
+// Plan limits and current usage, for the UI to show and pre-check against
+api.get("/me/limits", async (c) => {
   try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    const user = c.get("user");
+    const limits = await getUserLimits(c.get("supabase"), user.id);
+    return c.json({ limits });
+  } catch (error) {
+    console.log(`Error fetching limits: ${error}`);
+    return c.json({ error: "Failed to fetch limits" }, 500);
+  }
+});
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
+// Create a new profile
+api.post("/profiles", validateJson(createProfileRequestSchema), async (c) => {
+  try {
+    const user = c.get("user");
+    const repo = createRepositories(c.get("supabase"));
 
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
-      );
-    }
+    const overQuota = await checkProfileQuota(c.get("supabase"), user.id);
+    if (overQuota) return c.json(overQuota, 403);
 
-    const allItems = await kv.getByPrefix(`user:${user.id}:profile:`);
+    // Already trimmed and checked for emptiness by the schema
+    const { name, avatar, description, attributes } = c.req.valid("json");
 
-    // Filter to only include actual profile objects (which have 'name' and 'description' fields)
-    const profiles = allItems.filter(
-      (item: any) =>
-        item.name && item.description && !item.categoryName && !item.entry
-    );
+    const profile = await repo.profiles.create({
+      id: crypto.randomUUID(),
+      name,
+      avatar: avatar || "",
+      description,
+      attributes,
+      userId: user.id,
+      createdAt: new Date().toISOString(),
+    });
 
     return c.json({
-      profiles: profiles || [],
+      profile: { ...profile, role: "owner" },
     });
   } catch (error) {
-    console.log(`Error fetching profiles: ${error}`);
+    console.log(`Error creating profile: ${error}`);
     return c.json(
       {
-        error: "Failed to fetch profiles",
+        error: "Failed to create profile",
       },
       500
     );
   }
 });
 
-// Create a new profile
-app.post("/make-server-db41cb13/profiles", async (c) => {
-  try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
+// Update a profile's name, avatar, description or attributes; notes are
+// untouched
+api.patch(
+  "/profiles/:profileId",
+  validateJson(updateProfileRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const supabase = c.get("supabase");
+      const profileId = c.req.param("profileId");
+      const changes = c.req.valid("json");
+      const repo = createRepositories(supabase);
+
+      // A new avatar link replaces an uploaded avatar, whose files go
+      const previousAvatar =
+        changes.avatar !== undefined
+          ? await repo.profiles.avatarPath(ownerId, profileId)
+          : null;
+
+      const profile = await repo.profiles.update(ownerId, profileId, changes);
+      if (!profile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+      await removeAvatarFiles(supabase, previousAvatar);
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+      return c.json({ profile });
+    } catch (error) {
+      console.log(`Error updating profile: ${error}`);
+      return c.json({ error: "Failed to update profile" }, 500);
+    }
+  }
+);
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
+// Signed URLs for uploading a new avatar (full size and thumbnail) straight
+// to Storage; the profile keeps its current avatar until PUT .../avatar
+api.post("/profiles/:profileId/avatar/uploads", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+    const supabase = c.get("supabase");
+    const profileId = c.req.param("profileId");
 
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
-      );
+    const profile = await createRepositories(supabase).profiles.get(
+      ownerId,
+      profileId
+    );
+    if (!profile) {
+      return c.json({ error: "Profile not found" }, 404);
     }
 
-    // Check if user already has 5 profiles
-    const allItems = await kv.getByPrefix(`user:${user.id}:profile:`);
-    const existingProfiles = allItems.filter(
-      (item: any) =>
-        item.name && item.description && !item.categoryName && !item.entry
-    );
+    return c.json(await createAvatarUpload(supabase, ownerId, profileId));
+  } catch (error) {
+    console.log(`Error creating avatar upload: ${error}`);
+    return c.json({ error: "Failed to prepare avatar upload" }, 500);
+  }
+});
 
-    if (existingProfiles && existingProfiles.length >= 5) {
-      return c.json(
-        {
-          error: "Maximum 5 profiles allowed",
-        },
-        400
-      );
-    }
+// Switch the profile to an uploaded avatar and delete the previous one
+api.put(
+  "/profiles/:profileId/avatar",
+  validateJson(setAvatarRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const supabase = c.get("supabase");
+      const profileId = c.req.param("profileId");
+      const repo = createRepositories(supabase);
 
-    const { name, avatar, description } = await c.req.json();
+      const previousAvatar = await repo.profiles.avatarPath(ownerId, profileId);
+      if (previousAvatar === undefined) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
 
-    // Validate required fields
-    if (!name || typeof name !== "string" || name.trim() === "") {
-      return c.json(
-        {
-          error: "Profile name is required",
-        },
-        400
+      const { uploadId } = c.req.valid("json");
+      const avatar = await uploadedAvatar(
+        supabase,
+        ownerId,
+        profileId,
+        uploadId
       );
-    }
+      if (!avatar) {
+        return c.json(
+          invalidRequestBody([
+            {
+              path: "uploadId",
+              message: "Avatar files have not been uploaded",
+            },
+          ]),
+          400
+        );
+      }
 
-    if (
-      !description ||
-      typeof description !== "string" ||
-      description.trim() === ""
-    ) {
-      return c.json(
-        {
-          error: "Profile description is required",
-        },
-        400
-      );
+      const profile = await repo.profiles.setAvatar(ownerId, profileId, avatar);
+      if (!profile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+      if (previousAvatar !== avatar.path) {
+        await removeAvatarFiles(supabase, previousAvatar);
+      }
+
+      return c.json({ profile });
+    } catch (error) {
+      console.log(`Error setting avatar: ${error}`);
+      return c.json({ error: "Failed to set avatar" }, 500);
     }
+  }
+);
 
-    const profileId = crypto.randomUUID();
-    const createdAt = new Date().toISOString();
+// Remove the profile's avatar, uploaded or linked
+api.delete("/profiles/:profileId/avatar", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+    const supabase = c.get("supabase");
+    const profileId = c.req.param("profileId");
+    const repo = createRepositories(supabase);
 
-    const profile = {
-      id: profileId,
-      name: name.trim(),
-      avatar: avatar || "",
-      description: description.trim(),
-      userId: user.id,
-      createdAt,
-    };
-
-    // Original KV storage (keeps frontend working as-is)
-    await kv.set(`user:${user.id}:profile:${profileId}`, profile);
-
-    // NEW: also store in Postgres "profiles" for ChatGPT to read by name later
-    await supabase.from("profiles").upsert({
-      id: profileId,
-      user_id: user.id,
-      name: profile.name,
-      avatar: profile.avatar,
-      description: profile.description,
-      created_at: createdAt,
+    const previousAvatar = await repo.profiles.avatarPath(ownerId, profileId);
+    const profile = await repo.profiles.setAvatar(ownerId, profileId, {
+      url: "",
+      thumbUrl: "",
+      path: null,
     });
+    if (!profile) {
+      return c.json({ error: "Profile not found" }, 404);
+    }
+    await removeAvatarFiles(supabase, previousAvatar);
 
-    return c.json({
-      profile,
-    });
+    return c.json({ profile });
   } catch (error) {
-    console.log(`Error creating profile: ${error}`);
-    return c.json(
-      {
-        error: "Failed to create profile",
-      },
-      500
-    );
+    console.log(`Error removing avatar: ${error}`);
+    return c.json({ error: "Failed to remove avatar" }, 500);
   }
 });
 
-// Delete a profile
-app.delete("/make-server-db41cb13/profiles/:profileId", async (c) => {
+// Delete a profile; collaborators can only leave it (DELETE
+// /shared-profiles/:profileId)
+api.delete("/profiles/:profileId", async (c) => {
   try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
-
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
-
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
+    const { ownerId, role } = c.get("access");
+    if (role !== "owner") {
+      return authError(
+        c,
+        "forbidden",
+        "Only the owner can delete this profile"
       );
     }
 
     const profileId = c.req.param("profileId");
+    const supabase = c.get("supabase");
+    const repo = createRepositories(supabase);
 
-    // Delete all notes and categories for this profile from KV
-    const notes = await kv.getByPrefix(
-      `user:${user.id}:profile:${profileId}:note:`
-    );
-    const categories = await kv.getByPrefix(
-      `user:${user.id}:profile:${profileId}:category:`
-    );
-
-    const keysToDelete = [
-      `user:${user.id}:profile:${profileId}`,
-      ...notes.map(
-        (n: any) => `user:${user.id}:profile:${profileId}:note:${n.id}`
-      ),
-      ...categories.map(
-        (cat: any) => `user:${user.id}:profile:${profileId}:category:${cat.id}`
-      ),
-    ];
-
-    await kv.mdel(keysToDelete);
-
-    // NEW: delete from Postgres as well so ChatGPT memory stays in sync
-    await supabase
-      .from("memory_items")
-      .delete()
-      .eq("user_id", user.id)
-      .eq("profile_id", profileId);
-
-    await supabase
-      .from("profiles")
-      .delete()
-      .eq("user_id", user.id)
-      .eq("id", profileId);
+    // Categories, notes and memory_items rows go with it via ON DELETE
+    // CASCADE; avatar files have to be removed from Storage separately
+    const avatarPath = await repo.profiles.avatarPath(ownerId, profileId);
+    await repo.profiles.delete(ownerId, profileId);
+    await removeAvatarFiles(supabase, avatarPath);
 
     return c.json({
       success: true,
@@ -307,37 +423,164 @@ app.delete("/make-server-db41cb13/profiles/:profileId", async (c) => {
   }
 });
 
-// Get categories for a profile
-app.get("/make-server-db41cb13/profiles/:profileId/categories", async (c) => {
+// ---- Sharing ----
+
+// Who else has access to a profile; visible to all of them
+api.get("/profiles/:profileId/shares", async (c) => {
   try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
+    const shares = await createRepositories(
+      c.get("supabase")
+    ).shares.listByProfile(c.req.param("profileId"));
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    return c.json({ shares });
+  } catch (error) {
+    console.log(`Error fetching profile shares: ${error}`);
+    return c.json({ error: "Failed to fetch profile shares" }, 500);
+  }
+});
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
+// Share a profile with an existing user by email, or change their role if
+// it's already shared with them. Owner only.
+api.post(
+  "/profiles/:profileId/shares",
+  validateJson(shareProfileRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ownerId, role: access } = c.get("access");
+      if (access !== "owner") {
+        return authError(
+          c,
+          "forbidden",
+          "Only the owner can share this profile"
+        );
+      }
 
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
+      const { email, role } = c.req.valid("json");
+      const repo = createRepositories(c.get("supabase"));
+
+      const inviteeId = await repo.shares.findUserIdByEmail(email);
+      if (!inviteeId) {
+        return c.json(
+          invalidRequestBody([
+            { path: "email", message: "No account uses this email" },
+          ]),
+          400
+        );
+      }
+      if (inviteeId === ownerId) {
+        return c.json(
+          invalidRequestBody([
+            { path: "email", message: "You already own this profile" },
+          ]),
+          400
+        );
+      }
+
+      const share = await repo.shares.upsert(
+        c.req.param("profileId"),
+        inviteeId,
+        role,
+        user.id
       );
+
+      return c.json({ share });
+    } catch (error) {
+      console.log(`Error sharing profile: ${error}`);
+      return c.json({ error: "Failed to share profile" }, 500);
     }
+  }
+);
 
-    const profileId = c.req.param("profileId");
-    const categories = await kv.getByPrefix(
-      `user:${user.id}:profile:${profileId}:category:`
+// Change a collaborator's role. Owner only.
+api.patch(
+  "/profiles/:profileId/shares/:userId",
+  validateIdParams(),
+  validateJson(updateShareRequestSchema),
+  async (c) => {
+    try {
+      if (c.get("access").role !== "owner") {
+        return authError(c, "forbidden", "Only the owner can change sharing");
+      }
+
+      const profileId = c.req.param("profileId");
+      const userId = c.req.param("userId");
+      const repo = createRepositories(c.get("supabase"));
+
+      const updated = await repo.shares.updateRole(
+        profileId,
+        userId,
+        c.req.valid("json").role
+      );
+      if (!updated) {
+        return c.json({ error: "Collaborator not found" }, 404);
+      }
+
+      return c.json({ share: await repo.shares.get(profileId, userId) });
+    } catch (error) {
+      console.log(`Error updating profile share: ${error}`);
+      return c.json({ error: "Failed to update profile share" }, 500);
+    }
+  }
+);
+
+// Stop sharing a profile with someone. Owner only.
+api.delete(
+  "/profiles/:profileId/shares/:userId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      if (c.get("access").role !== "owner") {
+        return authError(c, "forbidden", "Only the owner can change sharing");
+      }
+
+      const removed = await createRepositories(c.get("supabase")).shares.delete(
+        c.req.param("profileId"),
+        c.req.param("userId")
+      );
+      if (!removed) {
+        return c.json({ error: "Collaborator not found" }, 404);
+      }
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error removing profile share: ${error}`);
+      return c.json({ error: "Failed to remove profile share" }, 500);
+    }
+  }
+);
+
+// Leave a profile someone shared with you. Outside /profiles/:profileId so
+// viewers, who can't send anything else there, can leave too.
+api.delete("/shared-profiles/:profileId", validateIdParams(), async (c) => {
+  try {
+    const removed = await createRepositories(c.get("supabase")).shares.delete(
+      c.req.param("profileId"),
+      c.get("user").id
     );
+    if (!removed) {
+      return c.json({ error: "Profile not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Error leaving shared profile: ${error}`);
+    return c.json({ error: "Failed to leave shared profile" }, 500);
+  }
+});
+
+// Get categories for a profile
+api.get("/profiles/:profileId/categories", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+
+    const profileId = c.req.param("profileId");
+    const categories = await createRepositories(
+      c.get("supabase")
+    ).categories.listByProfile(ownerId, profileId);
 
     return c.json({
-      categories: categories || [],
+      categories,
     });
   } catch (error) {
     console.log(`Error fetching categories: ${error}`);
@@ -350,37 +593,100 @@ app.get("/make-server-db41cb13/profiles/:profileId/categories", async (c) => {
   }
 });
 
-// Get notes for a profile
-app.get("/make-server-db41cb13/profiles/:profileId/notes", async (c) => {
-  try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
+// Rename a category
+api.patch(
+  "/profiles/:profileId/categories/:categoryId",
+  validateIdParams(),
+  validateJson(updateCategoryRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      const category = await createRepositories(
+        c.get("supabase")
+      ).categories.rename(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("categoryId"),
+        c.req.valid("json").name
+      );
+      if (!category) {
+        return c.json({ error: "Category not found" }, 404);
+      }
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+      return c.json({ category });
+    } catch (error) {
+      console.log(`Error renaming category: ${error}`);
+      return c.json({ error: "Failed to rename category" }, 500);
+    }
+  }
+);
+
+// Delete a category together with its notes
+api.delete(
+  "/profiles/:profileId/categories/:categoryId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      const deletedNotes = await createRepositories(
+        c.get("supabase")
+      ).categories.delete(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("categoryId")
+      );
+      if (deletedNotes === null) {
+        return c.json({ error: "Category not found" }, 404);
+      }
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
+      return c.json({ success: true, deletedNotes });
+    } catch (error) {
+      console.log(`Error deleting category: ${error}`);
+      return c.json({ error: "Failed to delete category" }, 500);
+    }
+  }
+);
 
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
+// Persist the tab order of a profile's categories
+api.put(
+  "/profiles/:profileId/categories/order",
+  validateJson(reorderCategoriesRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const profileId = c.req.param("profileId");
+      const repo = createRepositories(c.get("supabase"));
+
+      await repo.categories.reorder(
+        ownerId,
+        profileId,
+        c.req.valid("json").categoryIds
       );
+
+      return c.json({
+        categories: await repo.categories.listByProfile(ownerId, profileId),
+      });
+    } catch (error) {
+      console.log(`Error reordering categories: ${error}`);
+      return c.json({ error: "Failed to reorder categories" }, 500);
     }
+  }
+);
+
+// Get notes for a profile
+api.get("/profiles/:profileId/notes", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
 
     const profileId = c.req.param("profileId");
-    const notes = await kv.getByPrefix(
-      `user:${user.id}:profile:${profileId}:note:`
-    );
+    const notes = await createRepositories(
+      c.get("supabase")
+    ).notes.listByProfile(ownerId, profileId);
 
     return c.json({
-      notes: notes || [],
+      notes,
     });
   } catch (error) {
     console.log(`Error fetching notes: ${error}`);
@@ -394,317 +700,1202 @@ app.get("/make-server-db41cb13/profiles/:profileId/notes", async (c) => {
 });
 
 // Submit notes and categories (batch save with vector generation)
-app.post("/make-server-db41cb13/profiles/:profileId/submit", async (c) => {
-  try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
-
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
-
-    if (!user || authError) {
-      return c.json(
-        {
-          error: "Unauthorized",
-        },
-        401
-      );
-    }
-
-    const profileId = c.req.param("profileId");
-    const { categories, notes } = await c.req.json();
+api.post(
+  "/profiles/:profileId/submit",
+  validateJson(submitNotesRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ownerId } = c.get("access");
+      const supabase = c.get("supabase");
 
-    // ---- NEW: look up profile.name from Postgres for ChatGPT memory rows ----
-    const { data: profileRow } = await supabase
-      .from("profiles")
-      .select("name")
-      .eq("user_id", user.id)
-      .eq("id", profileId)
-      .maybeSingle();
+      const profileId = c.req.param("profileId");
+      const { categories, notes } = c.req.valid("json");
 
-    const profileNameForMemory: string | null = profileRow?.name ?? null;
+      const repo = createRepositories(supabase);
 
-    // Save categories in KV (same as before)
-    const categoryPromises = (categories || []).map((category: any) => {
-      const categoryId = category.id || crypto.randomUUID();
+      const profile = await repo.profiles.get(ownerId, profileId);
+      if (!profile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
 
-      return kv.set(
-        `user:${user.id}:profile:${profileId}:category:${categoryId}`,
-        {
-          id: categoryId,
-          name: category.name,
+      const [takenCategoryIds, takenNoteIds] = await Promise.all([
+        repo.categories.idsOwnedByOthers(
+          ownerId,
           profileId,
-          userId: user.id,
-          createdAt: category.createdAt || new Date().toISOString(),
-        }
+          (categories || []).flatMap((category) => category.id ?? [])
+        ),
+        repo.notes.idsOwnedByOthers(
+          ownerId,
+          profileId,
+          (notes || []).flatMap((note) => note.id ?? [])
+        ),
+      ]);
+      const takenIds = [
+        ...(categories || []).flatMap((category, index) =>
+          category.id && takenCategoryIds.has(category.id)
+            ? [
+                {
+                  path: `categories.${index}.id`,
+                  message: "Id is already in use",
+                },
+              ]
+            : []
+        ),
+        ...(notes || []).flatMap((note, index) =>
+          note.id && takenNoteIds.has(note.id)
+            ? [
+                {
+                  path: `notes.${index}.id`,
+                  message: "Id is already in use",
+                },
+              ]
+            : []
+        ),
+      ];
+      if (takenIds.length > 0) {
+        return c.json(invalidRequestBody(takenIds), 400);
+      }
+
+      const now = new Date().toISOString();
+
+      const categoryRecords = (categories || []).map((category) => ({
+        id: category.id || crypto.randomUUID(),
+        name: category.name,
+        position: category.position,
+        profileId,
+        userId: ownerId,
+        createdAt: category.createdAt || now,
+      }));
+
+      const knownCategoryIds = new Set([
+        ...categoryRecords.map((category) => category.id),
+        ...(await repo.categories.listByProfile(ownerId, profileId)).map(
+          (category) => category.id
+        ),
+      ]);
+      const orphan = (notes || []).findIndex(
+        (note) => !knownCategoryIds.has(note.categoryId)
       );
-    });
+      if (orphan !== -1) {
+        return c.json(
+          invalidRequestBody([
+            {
+              path: `notes.${orphan}.categoryId`,
+              message: "Unknown category",
+            },
+          ]),
+          400
+        );
+      }
 
-    // Save notes in KV + Postgres (with embeddings + profile_name)
-    const notePromises = (notes || []).map(async (note: any) => {
-      const noteId = note.id || crypto.randomUUID();
-      const textContent = note.entry || "";
+      const submittedNotes = await Promise.all(
+        (notes || []).map(async (note) => ({
+          ...note,
+          contentHash: await hashContent(note.entry || ""),
+        }))
+      );
+      const storedNotes = await repo.notes.getMany(
+        ownerId,
+        profileId,
+        submittedNotes.flatMap((note) => note.id ?? [])
+      );
 
-      // Generate embedding with Gemini
-      const embedding = await generateSimpleEmbedding(textContent);
+      // Notes saved from another device since this client loaded them. The
+      // whole batch is refused so the client can merge and resubmit. This
+      // early check spares the embedding calls; save_notes() repeats it on
+      // locked rows for saves that race this one.
+      const conflicts = submittedNotes.flatMap((note) => {
+        const stored = note.id ? storedNotes.get(note.id) : undefined;
+        return stored &&
+          note.baseUpdatedAt &&
+          Date.parse(note.baseUpdatedAt) !== Date.parse(stored.updatedAt ?? "")
+          ? [{ noteId: stored.id, server: stored }]
+          : [];
+      });
+      if (conflicts.length > 0) {
+        return c.json(notesConflict(conflicts), 409);
+      }
+      // New notes count against the owner's plan, embedding calls against
+      // whoever is saving (a collaborator on a shared profile)
+      const overNoteQuota = await checkNoteQuota(
+        supabase,
+        ownerId,
+        profileId,
+        submittedNotes.filter((note) => !note.id || !storedNotes.has(note.id))
+          .length
+      );
+      if (overNoteQuota) return c.json(overNoteQuota, 403);
+
+      // Notes whose text is unchanged since they were embedded with the
+      // current model keep their vector; only the rest are embedded
+      const needsEmbedding = submittedNotes.map((note) => {
+        const stored = note.id ? storedNotes.get(note.id) : undefined;
+        return !(
+          stored &&
+          stored.contentHash === note.contentHash &&
+          stored.embeddingModel === embeddingProvider.modelId &&
+          stored.embeddingDim === embeddingProvider.dimensions
+        );
+      });
+      const toEmbed = submittedNotes.filter(
+        (_, index) => needsEmbedding[index]
+      );
+
+      // Blank entries get a zero vector without calling the provider
+      const charged = toEmbed.filter((note) =>
+        (note.entry || "").trim()
+      ).length;
+      const overEmbeddingQuota = await consumeEmbeddingQuota(
+        supabase,
+        user.id,
+        charged
+      );
+      if (overEmbeddingQuota) return c.json(overEmbeddingQuota, 429);
+
+      // Counted up front so concurrent saves can't overshoot the allowance,
+      // and given back below unless the batch is saved
+      let saved = false;
+      try {
+        // Generate all embeddings in one provider call
+        const embeddings = await embeddingProvider.embedBatch(
+          toEmbed.map((note) => note.entry || "")
+        );
+        const embeddingByNote = new Map(
+          toEmbed.map((note, index) => [note, embeddings[index]])
+        );
 
-      const createdAt = note.createdAt || new Date().toISOString();
-      const updatedAt = new Date().toISOString();
+        const noteRecords = submittedNotes.map((note) => {
+          const embedding = embeddingByNote.get(note);
+          return {
+            id: note.id || crypto.randomUUID(),
+            entry: note.entry,
+            categoryId: note.categoryId,
+            profileId,
+            userId: ownerId,
+            ...(embedding
+              ? {
+                  embedding,
+                  embeddingModel: embeddingProvider.modelId,
+                  embeddingDim: embedding.length,
+                }
+              : {}),
+            contentHash: note.contentHash,
+            createdAt: note.createdAt || now,
+            updatedAt: now,
+            baseUpdatedAt: note.baseUpdatedAt,
+          };
+        });
+
+        // Categories, notes and their memory_items rows commit together
+        const conflictIds = await repo.notes.saveBatch(
+          categoryRecords,
+          noteRecords
+        );
+        if (conflictIds.length > 0) {
+          const current = await repo.notes.getMany(
+            ownerId,
+            profileId,
+            conflictIds
+          );
+          return c.json(
+            notesConflict(
+              [...current.values()].map((stored) => ({
+                noteId: stored.id,
+                server: stored,
+              }))
+            ),
+            409
+          );
+        }
 
-      // Original KV storage (keeps app behaviour)
-      await kv.set(
-        `user:${user.id}:profile:${profileId}:note:${noteId}`,
-        {
-          id: noteId,
-          entry: note.entry,
-          categoryId: note.categoryId,
-          profileId,
-          userId: user.id,
-          embedding,
-          createdAt,
-          updatedAt,
+        saved = true;
+        return c.json({
+          success: true,
+          message: "Notes and categories saved with vector embeddings",
+          noteIds: noteRecords.map((note) => note.id),
+          updatedAt: now,
+          embedded: toEmbed.length,
+          unchanged: noteRecords.length - toEmbed.length,
+        });
+      } finally {
+        if (!saved) {
+          await refundEmbeddingQuota(supabase, user.id, charged).catch(
+            (error) => console.log(`Error refunding embedding quota: ${error}`)
+          );
         }
+      }
+    } catch (error) {
+      console.log(`Error submitting notes: ${error}`);
+      console.log(
+        `Error stack: ${error instanceof Error ? error.stack : "No stack trace"}`
       );
+      return c.json(
+        {
+          error:
+            error instanceof Error ? error.message : "Failed to submit notes",
+        },
+        500
+      );
+    }
+  }
+);
+
+// Delete a note
+api.delete(
+  "/profiles/:profileId/notes/:noteId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const supabase = c.get("supabase");
+
+      const profileId = c.req.param("profileId");
+      const noteId = c.req.param("noteId");
 
-      // NEW: also write row into memory_items for ChatGPT RAG by profile.name
-      await supabase.from("memory_items").upsert({
-        id: noteId,
-        user_id: user.id,
-        profile_id: profileId,
-        profile_name: profileNameForMemory, // <-- this is profile.name
-        entry: note.entry,
-        embedding, // pgvector column
-        created_at: createdAt,
-        updated_at: updatedAt,
+      await createRepositories(supabase).notes.delete(
+        ownerId,
+        profileId,
+        noteId
+      );
+
+      return c.json({
+        success: true,
       });
-    });
+    } catch (error) {
+      console.log(`Error deleting note: ${error}`);
+      return c.json(
+        {
+          error: "Failed to delete note",
+        },
+        500
+      );
+    }
+  }
+);
 
-    await Promise.all([...categoryPromises, ...notePromises]);
+// ---- Gift ideas ----
+
+// 400 body for noteIds that aren't notes of this profile, or null if all are
+async function unknownNoteIds(
+  repo: ReturnType<typeof createRepositories>,
+  userId: string,
+  profileId: string,
+  noteIds: string[] | undefined
+) {
+  if (!noteIds?.length) return null;
+  const known = await repo.notes.existingIds(userId, profileId, noteIds);
+  const issues = noteIds.flatMap((id, index) =>
+    known.has(id) ? [] : [{ path: `noteIds.${index}`, message: "Unknown note" }]
+  );
+  return issues.length > 0 ? invalidRequestBody(issues) : null;
+}
 
-    return c.json({
-      success: true,
-      message: "Notes and categories saved with vector embeddings",
-    });
+// 400 body for an occasionId that isn't an occasion of this profile
+async function unknownOccasionId(
+  repo: ReturnType<typeof createRepositories>,
+  userId: string,
+  profileId: string,
+  occasionId: string | null | undefined
+) {
+  if (!occasionId) return null;
+  const occasion = await repo.occasions.get(userId, profileId, occasionId);
+  return occasion
+    ? null
+    : invalidRequestBody([{ path: "occasionId", message: "Unknown occasion" }]);
+}
+
+// Gifts in these states have been paid for and count as spend
+function isSpent(status: GiftStatus) {
+  return status === "purchased" || status === "given";
+}
+
+// Adds a newly given gift to the profile's history. The gift idea itself is
+// already saved, so a failure here is logged rather than failing the request.
+async function recordGiven(
+  supabase: SupabaseClient,
+  userId: string,
+  gift: GiftIdea
+) {
+  try {
+    await recordGivenGift(supabase, embeddingProvider, userId, gift);
   } catch (error) {
-    console.log(`Error submitting notes: ${error}`);
-    console.log(
-      `Error stack: ${error instanceof Error ? error.stack : "No stack trace"}`
-    );
-    return c.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to submit notes",
-      },
-      500
-    );
+    console.log(`Error recording gift history: ${error}`);
+  }
+}
+
+// List gift ideas for a profile
+api.get("/profiles/:profileId/gifts", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+
+    const profileId = c.req.param("profileId");
+    const giftIdeas = await createRepositories(
+      c.get("supabase")
+    ).giftIdeas.listByProfile(ownerId, profileId);
+
+    return c.json({ giftIdeas });
+  } catch (error) {
+    console.log(`Error fetching gift ideas: ${error}`);
+    return c.json({ error: "Failed to fetch gift ideas" }, 500);
   }
 });
 
-// Delete a note
-app.delete(
-  "/make-server-db41cb13/profiles/:profileId/notes/:noteId",
+// Create a gift idea
+api.post(
+  "/profiles/:profileId/gifts",
+  validateJson(createGiftIdeaRequestSchema),
   async (c) => {
     try {
-      const accessToken = c.req.header("Authorization")?.split(" ")[1];
+      const { ownerId } = c.get("access");
+      const repo = createRepositories(c.get("supabase"));
 
-      const supabase = createClient(
-        Deno.env.get("SUPABASE_URL")!,
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-      );
+      const profileId = c.req.param("profileId");
+      const body = c.req.valid("json");
 
-      const {
-        data: { user },
-        error: authError,
-      } = await supabase.auth.getUser(accessToken);
+      if (!(await repo.profiles.get(ownerId, profileId))) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
 
-      if (!user || authError) {
-        return c.json(
-          {
-            error: "Unauthorized",
-          },
-          401
-        );
+      const invalidNotes = await unknownNoteIds(
+        repo,
+        ownerId,
+        profileId,
+        body.noteIds
+      );
+      if (invalidNotes) return c.json(invalidNotes, 400);
+
+      const invalidOccasion = await unknownOccasionId(
+        repo,
+        ownerId,
+        profileId,
+        body.occasionId
+      );
+      if (invalidOccasion) return c.json(invalidOccasion, 400);
+
+      const createdAt = new Date().toISOString();
+      const status = body.status ?? "idea";
+      const giftIdea = await repo.giftIdeas.create(ownerId, {
+        id: crypto.randomUUID(),
+        profileId,
+        title: body.title,
+        url: body.url ?? null,
+        price: body.price ?? null,
+        currency: body.currency ?? "USD",
+        status,
+        occasion: body.occasion ?? null,
+        occasionId: body.occasionId ?? null,
+        noteIds: [...new Set(body.noteIds ?? [])],
+        purchasedAt: isSpent(status) ? createdAt : null,
+        createdAt,
+      });
+      if (status === "given") {
+        await recordGiven(c.get("supabase"), ownerId, giftIdea);
       }
 
+      return c.json({ giftIdea });
+    } catch (error) {
+      console.log(`Error creating gift idea: ${error}`);
+      return c.json({ error: "Failed to create gift idea" }, 500);
+    }
+  }
+);
+
+// Update a gift idea, e.g. move it from "planned" to "purchased"
+api.patch(
+  "/profiles/:profileId/gifts/:giftId",
+  validateIdParams(),
+  validateJson(updateGiftIdeaRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const repo = createRepositories(c.get("supabase"));
+
       const profileId = c.req.param("profileId");
-      const noteId = c.req.param("noteId");
+      const giftId = c.req.param("giftId");
+      const changes = c.req.valid("json");
 
-      // Delete from KV
-      await kv.del(`user:${user.id}:profile:${profileId}:note:${noteId}`);
+      const existing = await repo.giftIdeas.get(ownerId, profileId, giftId);
+      if (!existing) {
+        return c.json({ error: "Gift idea not found" }, 404);
+      }
 
-      // Delete from memory_items so ChatGPT doesn't see stale rows
-      await supabase
-        .from("memory_items")
-        .delete()
-        .eq("user_id", user.id)
-        .eq("profile_id", profileId)
-        .eq("id", noteId);
+      const invalidNotes = await unknownNoteIds(
+        repo,
+        ownerId,
+        profileId,
+        changes.noteIds
+      );
+      if (invalidNotes) return c.json(invalidNotes, 400);
 
-      return c.json({
-        success: true,
+      const invalidOccasion = await unknownOccasionId(
+        repo,
+        ownerId,
+        profileId,
+        changes.occasionId
+      );
+      if (invalidOccasion) return c.json(invalidOccasion, 400);
+
+      // Lifecycle timestamps only move when the status actually changes;
+      // purchased -> given keeps the original purchase date
+      const now = new Date().toISOString();
+      const statusChanged =
+        changes.status !== undefined && changes.status !== existing.status;
+      const giftIdea = await repo.giftIdeas.update(ownerId, profileId, giftId, {
+        ...changes,
+        noteIds: changes.noteIds && [...new Set(changes.noteIds)],
+        statusChangedAt: statusChanged ? now : undefined,
+        purchasedAt:
+          statusChanged && changes.status
+            ? isSpent(changes.status)
+              ? (existing.purchasedAt ?? now)
+              : null
+            : undefined,
       });
+      if (!giftIdea) {
+        return c.json({ error: "Gift idea not found" }, 404);
+      }
+      if (statusChanged && giftIdea.status === "given") {
+        await recordGiven(c.get("supabase"), ownerId, giftIdea);
+      }
+
+      return c.json({ giftIdea });
     } catch (error) {
-      console.log(`Error deleting note: ${error}`);
+      console.log(`Error updating gift idea: ${error}`);
+      return c.json({ error: "Failed to update gift idea" }, 500);
+    }
+  }
+);
+
+// Delete a gift idea
+api.delete(
+  "/profiles/:profileId/gifts/:giftId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      await createRepositories(c.get("supabase")).giftIdeas.delete(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("giftId")
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error deleting gift idea: ${error}`);
+      return c.json({ error: "Failed to delete gift idea" }, 500);
+    }
+  }
+);
+
+// Earlier gifts to the profile similar to a title being considered, so the
+// create form can warn before the same thing is given twice
+api.post(
+  "/profiles/:profileId/gifts/duplicates",
+  validateJson(checkDuplicateGiftRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ownerId } = c.get("access");
+
+      const overQuota = await consumeEmbeddingQuota(
+        c.get("supabase"),
+        user.id,
+        1
+      );
+      if (overQuota) return c.json(overQuota, 429);
+
+      const [duplicates] = await findPreviouslyGiven(
+        c.get("supabase"),
+        embeddingProvider,
+        ownerId,
+        c.req.param("profileId"),
+        [c.req.valid("json").title],
+        { quotaUserId: user.id }
+      );
+
+      return c.json({ duplicates });
+    } catch (error) {
+      console.log(`Error checking duplicate gifts: ${error}`);
+      return c.json({ error: "Failed to check for duplicate gifts" }, 500);
+    }
+  }
+);
+
+// ---- Gift history ----
+
+// Gifts given to a profile, most recent first
+api.get("/profiles/:profileId/history", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+
+    const history = await createRepositories(
+      c.get("supabase")
+    ).giftHistory.listByProfile(ownerId, c.req.param("profileId"));
+
+    return c.json({ history });
+  } catch (error) {
+    console.log(`Error fetching gift history: ${error}`);
+    return c.json({ error: "Failed to fetch gift history" }, 500);
+  }
+});
+
+// Remove a history entry, e.g. one recorded by mistake
+api.delete(
+  "/profiles/:profileId/history/:entryId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      await createRepositories(c.get("supabase")).giftHistory.delete(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("entryId")
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error deleting gift history entry: ${error}`);
+      return c.json({ error: "Failed to delete gift history entry" }, 500);
+    }
+  }
+);
+
+// ---- Occasions ----
+
+// List occasions for a profile
+api.get("/profiles/:profileId/occasions", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+
+    const occasions = await createRepositories(
+      c.get("supabase")
+    ).occasions.listByProfile(ownerId, c.req.param("profileId"));
+
+    return c.json({ occasions });
+  } catch (error) {
+    console.log(`Error fetching occasions: ${error}`);
+    return c.json({ error: "Failed to fetch occasions" }, 500);
+  }
+});
+
+// Create an occasion
+api.post(
+  "/profiles/:profileId/occasions",
+  validateJson(createOccasionRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const repo = createRepositories(c.get("supabase"));
+
+      const profileId = c.req.param("profileId");
+      const body = c.req.valid("json");
+
+      if (!(await repo.profiles.get(ownerId, profileId))) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+
+      const occasion = await repo.occasions.create(ownerId, {
+        id: crypto.randomUUID(),
+        profileId,
+        name: body.name,
+        type: body.type ?? "other",
+        date: body.date,
+        recurrence: body.recurrence ?? "yearly",
+        createdAt: new Date().toISOString(),
+      });
+
+      return c.json({ occasion });
+    } catch (error) {
+      console.log(`Error creating occasion: ${error}`);
+      return c.json({ error: "Failed to create occasion" }, 500);
+    }
+  }
+);
+
+// Update an occasion
+api.patch(
+  "/profiles/:profileId/occasions/:occasionId",
+  validateIdParams(),
+  validateJson(updateOccasionRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      const occasion = await createRepositories(
+        c.get("supabase")
+      ).occasions.update(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("occasionId"),
+        c.req.valid("json")
+      );
+      if (!occasion) {
+        return c.json({ error: "Occasion not found" }, 404);
+      }
+
+      return c.json({ occasion });
+    } catch (error) {
+      console.log(`Error updating occasion: ${error}`);
+      return c.json({ error: "Failed to update occasion" }, 500);
+    }
+  }
+);
+
+// Delete an occasion
+api.delete(
+  "/profiles/:profileId/occasions/:occasionId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      await createRepositories(c.get("supabase")).occasions.delete(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("occasionId")
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error deleting occasion: ${error}`);
+      return c.json({ error: "Failed to delete occasion" }, 500);
+    }
+  }
+);
+
+// Occasions across all profiles (own and shared) coming up in the next `days`
+// days, soonest first. `from` is the caller's local date so countdowns match
+// their calendar.
+api.get("/occasions/upcoming", async (c) => {
+  try {
+    const user = c.get("user");
+
+    const from = c.req.query("from") ?? localToday();
+    const days = Number(c.req.query("days") ?? 60);
+    if (!isValidDate(from)) {
       return c.json(
-        {
-          error: "Failed to delete note",
-        },
-        500
+        invalidRequestBody([{ path: "from", message: "Is not a valid date" }]),
+        400
+      );
+    }
+    if (!Number.isInteger(days) || days < 0 || days > 366) {
+      return c.json(
+        invalidRequestBody([
+          { path: "days", message: "Must be a whole number from 0 to 366" },
+        ]),
+        400
+      );
+    }
+
+    const repo = createRepositories(c.get("supabase"));
+    const occasions = await repo.occasions.list({
+      userId: user.id,
+      sharedProfileIds: await repo.shares.sharedProfileIds(user.id),
+    });
+
+    const upcoming: UpcomingOccasion[] = occasions
+      .flatMap((occasion) => {
+        const nextDate = nextOccurrence(
+          occasion.date,
+          occasion.recurrence,
+          from
+        );
+        if (!nextDate) return [];
+        const daysUntil = daysBetween(from, nextDate);
+        return daysUntil <= days ? [{ ...occasion, nextDate, daysUntil }] : [];
+      })
+      .sort((a, b) => a.daysUntil - b.daysUntil);
+
+    return c.json({ from, occasions: upcoming });
+  } catch (error) {
+    console.log(`Error fetching upcoming occasions: ${error}`);
+    return c.json({ error: "Failed to fetch upcoming occasions" }, 500);
+  }
+});
+
+// ---- Budgets ----
+
+// Year query parameter, defaulting to the current year
+function budgetYear(value: string | undefined) {
+  const year = Number(value ?? localToday().slice(0, 4));
+  return Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : null;
+}
+
+const invalidYear = () =>
+  invalidRequestBody([
+    { path: "year", message: "Must be a year from 2000 to 2100" },
+  ]);
+
+// List a profile's budgets, optionally for one year
+api.get("/profiles/:profileId/budgets", async (c) => {
+  try {
+    const { ownerId } = c.get("access");
+
+    const yearParam = c.req.query("year");
+    const year = yearParam === undefined ? undefined : budgetYear(yearParam);
+    if (year === null) return c.json(invalidYear(), 400);
+
+    const budgets = await createRepositories(
+      c.get("supabase")
+    ).budgets.listByProfile(ownerId, c.req.param("profileId"), year);
+
+    return c.json({ budgets });
+  } catch (error) {
+    console.log(`Error fetching budgets: ${error}`);
+    return c.json({ error: "Failed to fetch budgets" }, 500);
+  }
+});
+
+// Set the budget for a profile's year, or for one of its occasions
+api.put(
+  "/profiles/:profileId/budgets",
+  validateJson(setBudgetRequestSchema),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+      const repo = createRepositories(c.get("supabase"));
+
+      const profileId = c.req.param("profileId");
+      const body = c.req.valid("json");
+
+      if (!(await repo.profiles.get(ownerId, profileId))) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+
+      const invalidOccasion = await unknownOccasionId(
+        repo,
+        ownerId,
+        profileId,
+        body.occasionId
       );
+      if (invalidOccasion) return c.json(invalidOccasion, 400);
+
+      const budget = await repo.budgets.set(ownerId, {
+        profileId,
+        occasionId: body.occasionId ?? null,
+        year: body.year,
+        amount: body.amount,
+        currency: body.currency ?? "USD",
+      });
+
+      return c.json({ budget });
+    } catch (error) {
+      console.log(`Error setting budget: ${error}`);
+      return c.json({ error: "Failed to set budget" }, 500);
     }
   }
 );
 
-// Search for gift ideas using vector similarity (ChatGPT accessible endpoint)
-app.post("/make-server-db41cb13/search-gifts", async (c) => {
+// Delete a budget
+api.delete(
+  "/profiles/:profileId/budgets/:budgetId",
+  validateIdParams(),
+  async (c) => {
+    try {
+      const { ownerId } = c.get("access");
+
+      await createRepositories(c.get("supabase")).budgets.delete(
+        ownerId,
+        c.req.param("profileId"),
+        c.req.param("budgetId")
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error deleting budget: ${error}`);
+      return c.json({ error: "Failed to delete budget" }, 500);
+    }
+  }
+);
+
+// Budget vs actual across all profiles, own and shared, for one year (?year=,
+// default: this year). Spend comes from gift ideas purchased during that year.
+api.get("/budgets/summary", async (c) => {
   try {
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
+    const user = c.get("user");
+    const repo = createRepositories(c.get("supabase"));
+
+    const year = budgetYear(c.req.query("year"));
+    if (year === null) return c.json(invalidYear(), 400);
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    const [owned, shared] = await Promise.all([
+      repo.profiles.listByUser(user.id),
+      repo.shares.listSharedWith(user.id),
+    ]);
+    const sharedProfileIds = shared.map((profile) => profile.id);
+
+    const [occasions, budgets, spend] = await Promise.all([
+      repo.occasions.list({ userId: user.id, sharedProfileIds }),
+      repo.budgets.listByYear(user.id, year, sharedProfileIds),
+      repo.budgets.spend(user.id, year, sharedProfileIds),
+    ]);
+
+    return c.json(
+      summarizeBudgets(year, [...owned, ...shared], occasions, budgets, spend)
     );
+  } catch (error) {
+    console.log(`Error building budget summary: ${error}`);
+    return c.json({ error: "Failed to build budget summary" }, 500);
+  }
+});
+
+// ---- Reminders ----
+
+// Due reminders for the notification center. `today` is the caller's local
+// date so a reminder scheduled for today shows up in the user's morning.
+api.get("/reminders", async (c) => {
+  try {
+    const user = c.get("user");
+
+    const today = c.req.query("today") ?? localToday();
+    if (!isValidDate(today)) {
+      return c.json(
+        invalidRequestBody([{ path: "today", message: "Is not a valid date" }]),
+        400
+      );
+    }
+
+    const reminders = await createRepositories(
+      c.get("supabase")
+    ).reminders.listDue(user.id, today);
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser(accessToken);
+    return c.json({
+      reminders,
+      unreadCount: reminders.filter((reminder) => !reminder.readAt).length,
+    });
+  } catch (error) {
+    console.log(`Error fetching reminders: ${error}`);
+    return c.json({ error: "Failed to fetch reminders" }, 500);
+  }
+});
 
-    if (!user || authError) {
-      return c.json({ error: "Unauthorized" }, 401);
+// Mark reminders as read (opened in the notification center)
+api.post(
+  "/reminders/read",
+  validateJson(markRemindersRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ids } = c.req.valid("json");
+
+      await createRepositories(c.get("supabase")).reminders.markRead(
+        user.id,
+        ids
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error marking reminders read: ${error}`);
+      return c.json({ error: "Failed to update reminders" }, 500);
     }
+  }
+);
+
+// Mark reminders as delivered (a toast has been shown for them)
+api.post(
+  "/reminders/delivered",
+  validateJson(markRemindersRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ids } = c.req.valid("json");
+
+      await createRepositories(c.get("supabase")).reminders.markDelivered(
+        user.id,
+        ids
+      );
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.log(`Error marking reminders delivered: ${error}`);
+      return c.json({ error: "Failed to update reminders" }, 500);
+    }
+  }
+);
+
+// Generate the reminders due today for every user's occasions. Optional
+// body: { today?: "YYYY-MM-DD", userId?: string } for local testing.
+cron.post("/reminders", async (c) => {
+  try {
+    const { today, userId } = await c.req.json().catch(() => ({}));
+    if (today !== undefined && !isValidDate(String(today))) {
+      return c.json(
+        invalidRequestBody([{ path: "today", message: "Is not a valid date" }]),
+        400
+      );
+    }
+
+    const report = await generateReminders(c.get("supabase"), {
+      today,
+      userId: typeof userId === "string" && userId ? userId : undefined,
+    });
+
+    return c.json({ report });
+  } catch (error) {
+    console.log(`Error generating reminders: ${error}`);
+    return c.json({ error: "Failed to generate reminders" }, 500);
+  }
+});
+
+// Search for gift ideas using hybrid vector + keyword ranking (ChatGPT accessible endpoint)
+api.post("/search-gifts", validateJson(searchGiftsRequestSchema), async (c) => {
+  try {
+    const user = c.get("user");
+    const supabase = c.get("supabase");
+    const repo = createRepositories(supabase);
 
     // Accept BOTH:
     // - profileId (UUID)
     // - profileName (string)
-    const { query, profileId, profileName } = await c.req.json();
-
-    if (!query || typeof query !== "string") {
-      return c.json({ error: "Query string is required" }, 400);
+    const { query, profileId, profileName, includeDisliked, ...options } =
+      c.req.valid("json");
+
+    // A profile shared with the user is searched within its owner's notes;
+    // by name or across all profiles only the user's own are searched
+    let ownerId = user.id;
+    if (profileId) {
+      const access = await repo.shares.access(user.id, profileId);
+      if (!access) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+      ownerId = access.ownerId;
     }
 
     // If profileName is provided, resolve it to a UUID
     let resolvedProfileId = profileId;
+    let profile = profileId
+      ? await repo.profiles.get(ownerId, profileId)
+      : null;
 
     if (!resolvedProfileId && profileName) {
-      const allProfiles = await kv.getByPrefix(`user:${user.id}:profile:`);
-      const profiles = allProfiles.filter(
-        (item: any) =>
-          item.name &&
-          item.name.toLowerCase().trim() === profileName.toLowerCase().trim()
-      );
+      // If multiple match (shouldn't happen), the oldest wins
+      profile = await repo.profiles.findByName(user.id, profileName);
 
-      if (profiles.length === 0) {
+      if (!profile) {
         return c.json(
           { error: `No profile found with name '${profileName}'` },
           404
         );
       }
 
-      // If multiple match (shouldn't happen), use first
-      resolvedProfileId = profiles[0].id;
+      resolvedProfileId = profile.id;
     }
 
-    // Generate embedding for the query
-    const queryEmbedding = await generateSimpleEmbedding(query);
-
-    // Determine KV prefix based on resolved profile
-    let prefix = `user:${user.id}:profile:`;
-
-    if (resolvedProfileId) {
-      prefix = `user:${user.id}:profile:${resolvedProfileId}:note:`;
+    // Leave out notes mentioning the searched profile's dislikes and
+    // allergies (every profile's own when searching all of them)
+    let avoid: Record<string, string[]> = {};
+    if (!includeDisliked && profile) {
+      avoid = avoidedTermsByProfile([profile]);
+    } else if (!includeDisliked && !resolvedProfileId) {
+      avoid = avoidedTermsByProfile(await repo.profiles.listByUser(user.id));
     }
 
-    // Load notes
-    const allNotes = await kv.getByPrefix(prefix);
-    const notes = allNotes.filter((item: any) => item.entry !== undefined);
+    // The query is embedded unless only keyword matching was asked for
+    const overQuota = await consumeEmbeddingQuota(
+      supabase,
+      user.id,
+      options.weights?.vector === 0 ? 0 : 1
+    );
+    if (overQuota) return c.json(overQuota, 429);
+
+    const { relevantNotes, staleNotes, excludedNotes } = await searchNotes(
+      supabase,
+      embeddingProvider,
+      ownerId,
+      {
+        query,
+        profileId: resolvedProfileId,
+        avoid,
+        quotaUserId: user.id,
+        ...options,
+      }
+    );
 
-    if (notes.length === 0) {
+    if (relevantNotes.length === 0 && staleNotes.length > 0) {
       return c.json({
-        gifts: [],
-        matchedNotes: [],
-        message: "No notes found. Please add notes to profiles first.",
-      });
+        query,
+        usedProfile: resolvedProfileId ?? "all-profiles",
+        staleNotesSkipped: staleNotes.length,
+        relevantNotes: [],
+        message:
+          "Notes are being re-embedded for the current model. Please try again shortly.",
+      } satisfies SearchGiftsResponse);
     }
 
-    // Calculate similarity
-    const scoredNotes = notes
-      .map((note: any) => ({
-        ...note,
-        similarity: cosineSimilarity(queryEmbedding, note.embedding || []),
-      }))
-      .sort((a: any, b: any) => b.similarity - a.similarity)
-      .slice(0, 10);
-
-    const relevantData = scoredNotes.map((note: any) => ({
-      noteId: note.id,
-      entry: note.entry,
-      profileId: note.profileId,
-      relevanceScore: (note.similarity * 100).toFixed(2) + "%",
-      amazonSearchUrl: `https://www.amazon.com/s?k=${encodeURIComponent(
-        note.entry
-      )}`,
-    }));
-
     return c.json({
       query,
       usedProfile: resolvedProfileId ?? "all-profiles",
-      totalNotesSearched: notes.length,
-      relevantNotes: relevantData,
+      staleNotesSkipped: staleNotes.length,
+      excludedNotes,
+      ...(profile ? { profileAttributes: profile.attributes } : {}),
+      relevantNotes,
       message:
         "Use the matched notes to suggest relevant gift products to the user.",
-    });
+    } satisfies SearchGiftsResponse);
   } catch (error) {
     console.log(`Error searching for gifts: ${error}`);
     return c.json({ error: "Failed to search for gifts" }, 500);
   }
 });
 
-// Helper function to generate embeddings using Gemini
-async function generateSimpleEmbedding(text: string) {
-  if (!embeddingModel) {
-    throw new Error("Gemini embedding model is not initialized.");
-  }
+// Generate gift ideas for one profile with the LLM, grounded in its notes
+api.post(
+  "/profiles/:profileId/suggest",
+  validateJson(suggestGiftsRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { ownerId } = c.get("access");
+      const supabase = c.get("supabase");
+
+      const profileId = c.req.param("profileId");
+      const request = c.req.valid("json");
+
+      const profile = await createRepositories(supabase).profiles.get(
+        ownerId,
+        profileId
+      );
+      if (!profile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
 
-  const clean = (text ?? "").toString();
-  if (!clean.trim()) {
-    // Return a zero vector if text is empty
-    // This keeps cosineSimilarity from blowing up on empty input
-    return new Array(768).fill(0);
+      // The query, plus each idea's title for the gift history check
+      const charged = 1 + (request.count ?? 5);
+      const overQuota = await consumeEmbeddingQuota(supabase, user.id, charged);
+      if (overQuota) return c.json(overQuota, 429);
+
+      // Counted up front so concurrent requests can't overshoot the
+      // allowance; whatever isn't embedded in the end is given back below
+      let used = 0;
+      try {
+        // Retrieve the notes most related to what is being asked for
+        const { relevantNotes } = await searchNotes(
+          supabase,
+          embeddingProvider,
+          ownerId,
+          {
+            query:
+              [request.query, request.occasion].filter(Boolean).join(" ") ||
+              [profile.description, ...(profile.attributes?.likes ?? [])]
+                .filter(Boolean)
+                .join(" ") ||
+              "gift ideas",
+            profileId,
+            limit: request.noteLimit ?? 12,
+            quotaUserId: user.id,
+          }
+        );
+        used = 1;
+
+        if (relevantNotes.length === 0) {
+          return c.json({
+            profileId,
+            model: llmProvider.modelId,
+            ideas: [],
+            notesUsed: [],
+            message: "No notes found. Please add notes to this profile first.",
+          });
+        }
+
+        const ideas = await generateGiftSuggestions(
+          llmProvider,
+          profile,
+          relevantNotes,
+          request
+        );
+
+        // Flag ideas close to something already given; suggestions are still
+        // returned if the check fails
+        used += ideas.length;
+        const previouslyGiven = await findPreviouslyGiven(
+          supabase,
+          embeddingProvider,
+          ownerId,
+          profileId,
+          ideas.map((idea) => idea.title),
+          { quotaUserId: user.id }
+        ).catch((error) => {
+          console.log(`Error checking suggestions against history: ${error}`);
+          return [];
+        });
+
+        return c.json({
+          profileId,
+          model: llmProvider.modelId,
+          ideas: ideas.map((idea, i) => ({
+            ...idea,
+            previouslyGiven: previouslyGiven[i] ?? [],
+          })),
+          notesUsed: relevantNotes,
+        });
+      } finally {
+        await refundEmbeddingQuota(supabase, user.id, charged - used).catch(
+          (error) => console.log(`Error refunding embedding quota: ${error}`)
+        );
+      }
+    } catch (error) {
+      console.log(`Error generating gift suggestions: ${error}`);
+      return c.json({ error: "Failed to generate gift suggestions" }, 500);
+    }
   }
+);
 
-  const result = await embeddingModel.embedContent(clean);
-  // result.embedding.values is an array<number>
-  return result.embedding.values || [];
-}
+// Re-embed notes whose vectors are stale or from a different model
+admin.post("/reembed", async (c) => {
+  try {
+    const { userId, dryRun, limit } = await c.req.json().catch(() => ({}));
+    if (userId !== undefined && idParamIssues({ userId }).length) {
+      return c.json({ error: "userId must be a UUID" }, 400);
+    }
 
-// Helper function to calculate cosine similarity
-function cosineSimilarity(vecA: number[], vecB: number[]) {
-  if (!vecA || !vecB || vecA.length === 0 || vecB.length === 0) return 0;
-  if (vecA.length !== vecB.length) return 0;
+    const supabase = c.get("supabase");
 
-  let dotProduct = 0;
-  let magA = 0;
-  let magB = 0;
+    const report = await reembedStaleNotes(supabase, embeddingProvider, {
+      userId,
+      dryRun: Boolean(dryRun),
+      limit: typeof limit === "number" && limit > 0 ? limit : undefined,
+    });
 
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    magA += vecA[i] * vecA[i];
-    magB += vecB[i] * vecB[i];
+    return c.json({ report });
+  } catch (error) {
+    console.log(`Error re-embedding notes: ${error}`);
+    return c.json({ error: "Failed to re-embed notes" }, 500);
   }
+});
 
-  magA = Math.sqrt(magA);
-  magB = Math.sqrt(magB);
+// Report (and optionally repair) drift between notes and memory_items
+admin.post("/reconcile", async (c) => {
+  try {
+    const { userId, repair } = await c.req.json().catch(() => ({}));
+    if (typeof userId !== "string" || !userId) {
+      return c.json({ error: "userId is required" }, 400);
+    }
+    if (idParamIssues({ userId }).length) {
+      return c.json({ error: "userId must be a UUID" }, 400);
+    }
 
-  if (magA === 0 || magB === 0) return 0;
+    const items = await createRepositories(
+      c.get("supabase")
+    ).memoryItems.reconcile(userId, Boolean(repair));
 
-  return dotProduct / (magA * magB);
-}
+    const drift = { missing: 0, mismatched: 0, orphaned: 0 };
+    for (const item of items) drift[item.issue]++;
+
+    return c.json({ userId, repaired: Boolean(repair), drift, items });
+  } catch (error) {
+    console.log(`Error reconciling memory_items: ${error}`);
+    return c.json({ error: "Failed to reconcile memory_items" }, 500);
+  }
+});
+
+// Mount order matters: the public routes above are registered first, and
+// `admin` and `cron` must precede `api` so their paths don't fall into
+// requireAuth.
+app.route("/make-server-db41cb13/admin", admin);
+app.route("/make-server-db41cb13/cron", cron);
+app.route("/make-server-db41cb13", api);
 
 Deno.serve(app.fetch);
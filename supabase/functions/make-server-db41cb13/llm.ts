@@ -0,0 +1,152 @@
+import { GoogleGenerativeAI } from "npm:@google/generative-ai";
+
+// Common interface for the text-generation model behind /suggest. Like
+// EmbeddingProvider, routes only see this so the model can be swapped via env.
+export interface LlmProvider {
+  // Stable identifier reported with every response, e.g. "gemini/gemini-1.5-flash"
+  readonly modelId: string;
+  // Returns the model's reply to `prompt`, which must be a single JSON value
+  generateJson(request: LlmRequest): Promise<string>;
+}
+
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  temperature?: number;
+}
+
+type EnvGetter = (name: string) => string | undefined;
+
+// ---- Gemini ----
+export class GeminiLlmProvider implements LlmProvider {
+  readonly modelId: string;
+  private client: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    private model = "gemini-1.5-flash"
+  ) {
+    this.modelId = `gemini/${model}`;
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateJson({ system, prompt, temperature = 0.7 }: LlmRequest) {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      systemInstruction: system,
+      generationConfig: { responseMimeType: "application/json", temperature },
+    });
+    const result = await model.generateContent(prompt);
+    return result.response.text();
+  }
+}
+
+// ---- OpenAI-compatible (OpenAI, Azure proxies, Ollama, LM Studio, ...) ----
+export class OpenAICompatibleLlmProvider implements LlmProvider {
+  readonly modelId: string;
+
+  constructor(
+    private options: { baseUrl: string; apiKey?: string; model: string }
+  ) {
+    this.modelId = `openai/${options.model}`;
+  }
+
+  async generateJson({ system, prompt, temperature = 0.7 }: LlmRequest) {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.options.apiKey
+            ? { Authorization: `Bearer ${this.options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          temperature,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: prompt },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Completion request failed (${response.status}): ${await response.text()}`
+      );
+    }
+
+    const { choices } = await response.json();
+    return (choices?.[0]?.message?.content ?? "") as string;
+  }
+}
+
+// ---- Local stub (no API key, fully deterministic) ----
+// Turns every note line of the prompt ("- [<note id>] <text>", the format
+// written by suggestions.ts) into one idea citing that note. Useful for
+// tests and offline development; it does no actual reasoning.
+export class LocalStubLlmProvider implements LlmProvider {
+  readonly modelId = "local/stub-v1";
+
+  async generateJson({ prompt }: LlmRequest) {
+    const notes = [...prompt.matchAll(/^- \[([^\]]+)\] (.+)$/gm)];
+    const count = Number(prompt.match(/^Ideas wanted: (\d+)$/m)?.[1]) || 3;
+
+    return JSON.stringify({
+      ideas: notes.slice(0, count).map(([, noteId, text]) => ({
+        title: text.length > 60 ? `${text.slice(0, 57)}...` : text,
+        description: `A gift inspired by: ${text}`,
+        rationale: `Based on note ${noteId}.`,
+        estimatedPrice: null,
+        noteIds: [noteId],
+      })),
+    });
+  }
+}
+
+// Picks a provider from env:
+//   LLM_PROVIDER  gemini | openai | local (default: gemini when
+//                 GEMINI_API_KEY is set, otherwise local)
+//   LLM_MODEL     model name for gemini/openai
+//   OPENAI_API_KEY, OPENAI_BASE_URL for the OpenAI-compatible provider
+export function createLlmProvider(
+  env: EnvGetter = (name) => Deno.env.get(name)
+): LlmProvider {
+  const geminiKey = env("GEMINI_API_KEY");
+  const providerName = (
+    env("LLM_PROVIDER") ?? (geminiKey ? "gemini" : "local")
+  ).toLowerCase();
+  const model = env("LLM_MODEL");
+
+  switch (providerName) {
+    case "gemini":
+      if (!geminiKey) {
+        throw new Error(
+          "LLM_PROVIDER=gemini requires GEMINI_API_KEY to be set."
+        );
+      }
+      return new GeminiLlmProvider(geminiKey, model);
+
+    case "openai":
+      return new OpenAICompatibleLlmProvider({
+        baseUrl: env("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey: env("OPENAI_API_KEY"),
+        model: model ?? "gpt-4o-mini",
+      });
+
+    case "local":
+      if (!env("LLM_PROVIDER")) {
+        console.warn(
+          "Warning: GEMINI_API_KEY is not set. Falling back to the local stub LLM provider."
+        );
+      }
+      return new LocalStubLlmProvider();
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER '${providerName}'`);
+  }
+}
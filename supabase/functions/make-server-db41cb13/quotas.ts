@@ -0,0 +1,113 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  type ApiErrorBody,
+  quotaExceeded,
+  type UserLimits,
+} from "../_shared/contracts.ts";
+import { createRepositories } from "./repository.ts";
+
+// Quota checks shared by the routes. Each returns the error body to send
+// (403 for counts, 429 for the daily embedding allowance) or null when the
+// request fits, like the other validation helpers in index.ts.
+
+function utcToday() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Limits and current usage, as returned by GET /me/limits
+export async function getUserLimits(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserLimits> {
+  const repo = createRepositories(supabase);
+  const day = utcToday();
+  const [limits, profiles, embeddings] = await Promise.all([
+    repo.quotas.limits(userId),
+    repo.profiles.countByUser(userId),
+    repo.quotas.embeddingsUsed(userId, day),
+  ]);
+
+  return {
+    plan: limits.plan,
+    planName: limits.planName,
+    profiles: { limit: limits.maxProfiles, used: profiles },
+    notesPerProfile: { limit: limits.maxNotesPerProfile },
+    embeddingsPerDay: {
+      limit: limits.maxEmbeddingsPerDay,
+      used: embeddings,
+      day,
+    },
+  };
+}
+
+// Room for one more profile?
+export async function checkProfileQuota(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ApiErrorBody | null> {
+  const repo = createRepositories(supabase);
+  const [{ maxProfiles }, count] = await Promise.all([
+    repo.quotas.limits(userId),
+    repo.profiles.countByUser(userId),
+  ]);
+  if (maxProfiles === null || count < maxProfiles) return null;
+  return quotaExceeded(
+    "profiles",
+    maxProfiles,
+    `Maximum ${maxProfiles} profiles allowed on your plan`
+  );
+}
+
+// Would the profile stay within its note limit after `added` new notes?
+export async function checkNoteQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  profileId: string,
+  added: number
+): Promise<ApiErrorBody | null> {
+  if (added === 0) return null;
+  const repo = createRepositories(supabase);
+  const [{ maxNotesPerProfile }, count] = await Promise.all([
+    repo.quotas.limits(userId),
+    repo.notes.countByProfile(userId, profileId),
+  ]);
+  if (maxNotesPerProfile === null || count + added <= maxNotesPerProfile) {
+    return null;
+  }
+  return quotaExceeded(
+    "notesPerProfile",
+    maxNotesPerProfile,
+    `Maximum ${maxNotesPerProfile} notes per profile allowed on your plan`
+  );
+}
+
+// Counts `count` texts against today's embedding allowance, before they are
+// embedded. Nothing is counted when the request doesn't fit.
+export async function consumeEmbeddingQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  count: number
+): Promise<ApiErrorBody | null> {
+  if (count === 0) return null;
+  const repo = createRepositories(supabase).quotas;
+  const { maxEmbeddingsPerDay } = await repo.limits(userId);
+  if (await repo.consumeEmbeddings(userId, count, maxEmbeddingsPerDay)) {
+    return null;
+  }
+  return quotaExceeded(
+    "embeddingsPerDay",
+    maxEmbeddingsPerDay ?? 0,
+    `Daily limit of ${maxEmbeddingsPerDay} embeddings reached; try again tomorrow`
+  );
+}
+
+// Undoes consumeEmbeddingQuota for work that didn't go through, e.g. a save
+// that failed after its texts were counted
+export async function refundEmbeddingQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  count: number
+) {
+  if (count === 0) return;
+  await createRepositories(supabase).quotas.refundEmbeddings(userId, count);
+}
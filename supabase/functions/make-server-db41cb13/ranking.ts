@@ -0,0 +1,52 @@
+// Reciprocal rank fusion (RRF) for the hybrid gift search. Each signal
+// (vector similarity, keyword match) ranks its own candidates; a note's fused
+// score is the sum over signals of weight / (k + rank). Raw scores from
+// different signals aren't comparable, ranks are.
+
+export const DEFAULT_RRF_K = 60;
+
+export interface RankedList<T> {
+  signal: string;
+  weight: number;
+  // Best match first
+  items: { id: string; score: number; item: T }[];
+}
+
+export interface FusedResult<T> {
+  id: string;
+  item: T;
+  fusedScore: number;
+  // Raw score and 1-based rank per signal that returned this id
+  signals: Record<string, { score: number; rank: number }>;
+}
+
+export function fuseRankings<T>(
+  lists: RankedList<T>[],
+  k = DEFAULT_RRF_K
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  for (const list of lists) {
+    if (list.weight <= 0) continue;
+
+    list.items.forEach(({ id, score, item }, index) => {
+      const rank = index + 1;
+      const entry = fused.get(id) ?? { id, item, fusedScore: 0, signals: {} };
+      entry.fusedScore += list.weight / (k + rank);
+      entry.signals[list.signal] = { score, rank };
+      fused.set(id, entry);
+    });
+  }
+
+  // Ties (e.g. one note first by vector, another first by keyword) keep the
+  // order they were first seen in
+  return [...fused.values()].sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
+// Highest fused score possible: rank 1 in every enabled signal. Used to
+// express a fused score as a 0-1 fraction.
+export function maxFusedScore(weights: number[], k = DEFAULT_RRF_K) {
+  return weights
+    .filter((weight) => weight > 0)
+    .reduce((sum, weight) => sum + weight / (k + 1), 0);
+}
@@ -0,0 +1,88 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1";
+import { DEFAULT_RRF_K, fuseRankings, maxFusedScore } from "./ranking.ts";
+
+function ranked(signal: string, ids: string[], weight = 1) {
+  return {
+    signal,
+    weight,
+    items: ids.map((id, index) => ({ id, score: 1 - index / 10, item: id })),
+  };
+}
+
+Deno.test("fuseRankings puts notes found by both signals first", () => {
+  const fused = fuseRankings([
+    ranked("vector", ["a", "b", "c"]),
+    ranked("keyword", ["c", "d"]),
+  ]);
+
+  assertEquals(
+    fused.map((result) => result.id),
+    ["c", "a", "b", "d"]
+  );
+  assertAlmostEquals(
+    fused[0].fusedScore,
+    1 / (DEFAULT_RRF_K + 3) + 1 / (DEFAULT_RRF_K + 1)
+  );
+  assertEquals(fused[0].signals, {
+    vector: { score: 0.8, rank: 3 },
+    keyword: { score: 1, rank: 1 },
+  });
+});
+
+Deno.test("fuseRankings keeps first-seen order for tied scores", () => {
+  const fused = fuseRankings([
+    ranked("vector", ["a", "b"]),
+    ranked("keyword", ["b", "a"]),
+  ]);
+
+  assertEquals(
+    fused.map((result) => result.id),
+    ["a", "b"]
+  );
+  assertAlmostEquals(fused[0].fusedScore, fused[1].fusedScore);
+});
+
+Deno.test("fuseRankings scales each signal by its weight", () => {
+  const lists = [ranked("vector", ["a"]), ranked("keyword", ["b"], 2)];
+
+  assertEquals(
+    fuseRankings(lists).map((result) => result.id),
+    ["b", "a"]
+  );
+  assertAlmostEquals(
+    fuseRankings(lists)[0].fusedScore,
+    2 / (DEFAULT_RRF_K + 1)
+  );
+});
+
+Deno.test("fuseRankings ignores signals with a zero weight", () => {
+  const fused = fuseRankings([
+    ranked("vector", ["a"]),
+    ranked("keyword", ["b"], 0),
+  ]);
+
+  assertEquals(
+    fused.map((result) => result.id),
+    ["a"]
+  );
+  assertEquals(Object.keys(fused[0].signals), ["vector"]);
+});
+
+Deno.test("fuseRankings uses the given k", () => {
+  const [result] = fuseRankings([ranked("vector", ["a", "b"])], 1);
+  assertAlmostEquals(result.fusedScore, 1 / 2);
+});
+
+Deno.test("maxFusedScore is rank 1 in every enabled signal", () => {
+  assertAlmostEquals(maxFusedScore([1, 2]), 3 / (DEFAULT_RRF_K + 1));
+  assertAlmostEquals(maxFusedScore([1, 0], 9), 1 / 10);
+  assertEquals(maxFusedScore([]), 0);
+});
+
+Deno.test("a note first in every signal scores maxFusedScore", () => {
+  const [top] = fuseRankings([
+    ranked("vector", ["a", "b"], 0.7),
+    ranked("keyword", ["a"], 0.3),
+  ]);
+  assertAlmostEquals(top.fusedScore, maxFusedScore([0.7, 0.3]));
+});
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { Note } from "../_shared/contracts.ts";
+import { type EmbeddingProvider, hashContent } from "./embeddings.ts";
+import { NoteRepository, type StoredNote } from "./repository.ts";
+
+export type StaleReason =
+  | "missing-metadata"
+  | "model-changed"
+  | "dimension-mismatch"
+  | "content-changed";
+
+// Returns why a note's vector can't be trusted with the current provider,
+// or null when it is up to date.
+export async function getStaleReason(
+  note: Note,
+  provider: EmbeddingProvider
+): Promise<StaleReason | null> {
+  if (!note.embeddingModel || !note.embeddingDim || !note.contentHash) {
+    return "missing-metadata";
+  }
+  if (note.embeddingModel !== provider.modelId) return "model-changed";
+  if (
+    note.embeddingDim !== provider.dimensions ||
+    (note.embedding?.length ?? 0) !== provider.dimensions
+  ) {
+    return "dimension-mismatch";
+  }
+  if (note.contentHash !== (await hashContent(note.entry ?? ""))) {
+    return "content-changed";
+  }
+  return null;
+}
+
+export interface ReembedOptions {
+  // Restrict the job to one user; omit to scan every user's notes
+  userId?: string;
+  // Report what would change without writing anything
+  dryRun?: boolean;
+  // Upper bound on notes re-embedded per run so one call can't time out
+  limit?: number;
+}
+
+export interface ReembedReport {
+  modelId: string;
+  dimensions: number;
+  scanned: number;
+  stale: number;
+  reembedded: number;
+  remaining: number;
+  reasons: Record<StaleReason, number>;
+  failures: { noteId: string; error: string }[];
+}
+
+// Finds notes whose vectors don't match the active embedding provider (or
+// whose text changed since they were embedded) and regenerates them in
+// the notes table and memory_items.
+export async function reembedStaleNotes(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  { userId, dryRun = false, limit = 200 }: ReembedOptions = {}
+): Promise<ReembedReport> {
+  const notes = await new NoteRepository(supabase).list({ userId });
+
+  const reasons: ReembedReport["reasons"] = {
+    "missing-metadata": 0,
+    "model-changed": 0,
+    "dimension-mismatch": 0,
+    "content-changed": 0,
+  };
+  const stale: StoredNote[] = [];
+
+  for (const note of notes) {
+    const reason = await getStaleReason(note, provider);
+    if (reason) {
+      reasons[reason]++;
+      stale.push(note);
+    }
+  }
+
+  const batch = dryRun ? [] : stale.slice(0, limit);
+  const failures = await reembedNotes(supabase, provider, batch);
+
+  return {
+    modelId: provider.modelId,
+    dimensions: provider.dimensions,
+    scanned: notes.length,
+    stale: stale.length,
+    reembedded: batch.length - failures.length,
+    remaining: stale.length - (batch.length - failures.length),
+    reasons,
+    failures,
+  };
+}
+
+// Re-embeds the given notes and writes the new vector and its metadata back.
+// memory_items follows via the notes sync trigger. Returns the notes that
+// could not be updated; when the provider call itself fails, that is all
+// of them.
+export async function reembedNotes(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  notes: StoredNote[]
+) {
+  const failures: { noteId: string; error: string }[] = [];
+  if (notes.length === 0) return failures;
+
+  const repository = new NoteRepository(supabase);
+
+  let embeddings: number[][];
+  try {
+    embeddings = await provider.embedBatch(
+      notes.map((note) => note.entry || "")
+    );
+  } catch (error) {
+    console.log(`Error embedding ${notes.length} notes: ${error}`);
+    const message = error instanceof Error ? error.message : String(error);
+    return notes.map((note) => ({ noteId: note.id, error: message }));
+  }
+
+  await Promise.all(
+    notes.map(async (note, index) => {
+      try {
+        const embedding = embeddings[index];
+        const contentHash = await hashContent(note.entry ?? "");
+
+        await repository.updateEmbedding(note.userId, note.id, {
+          embedding,
+          embeddingModel: provider.modelId,
+          embeddingDim: embedding.length,
+          contentHash,
+        });
+      } catch (error) {
+        console.log(`Error re-embedding note ${note.id}: ${error}`);
+        failures.push({
+          noteId: note.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })
+  );
+
+  return failures;
+}
+
+// Supabase's edge runtime keeps the worker alive for promises handed to
+// EdgeRuntime.waitUntil; elsewhere (local Deno) we just let it float.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+export function runInBackground(task: Promise<unknown>) {
+  const guarded = task.catch((error) =>
+    console.log(`Background task failed: ${error}`)
+  );
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(guarded);
+  }
+}
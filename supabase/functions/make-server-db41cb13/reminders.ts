@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  daysBetween,
+  localToday,
+  nextOccurrence,
+} from "../_shared/occasions.ts";
+import { createRepositories, type NewReminder } from "./repository.ts";
+
+type EnvGetter = (name: string) => string | undefined;
+
+const DEFAULT_DAYS_BEFORE = [14, 3, 0];
+
+// Lead times from REMINDER_DAYS_BEFORE ("14,3,0"), largest first
+export function reminderDaysBefore(
+  env: EnvGetter = (name) => Deno.env.get(name)
+) {
+  const configured = (env("REMINDER_DAYS_BEFORE") ?? "")
+    .split(",")
+    .map((value) => Number(value.trim()))
+    .filter((value) => Number.isInteger(value) && value >= 0);
+  const days = configured.length > 0 ? configured : DEFAULT_DAYS_BEFORE;
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export interface ReminderJobOptions {
+  // Date the job runs for (default: today in the server's time zone)
+  today?: string;
+  daysBefore?: number[];
+  // Restrict the job to one user; omit to process everyone
+  userId?: string;
+}
+
+export interface ReminderJobReport {
+  today: string;
+  daysBefore: number[];
+  occasionsScanned: number;
+  remindersCreated: number;
+}
+
+function reminderText(profileName: string, occasionName: string, days: number) {
+  const when =
+    days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`;
+  return {
+    title: `${profileName}'s ${occasionName} is ${when}`,
+    message:
+      days === 0
+        ? "Don't forget to give your gift!"
+        : "Check their gift ideas and get something ready.",
+  };
+}
+
+// Creates the reminders that are due for every occasion, for the profile's
+// owner and everyone it is shared with. For each upcoming occurrence only
+// the closest lead time that has been reached is used, so a job that missed
+// a few days doesn't fire a stale "in 14 days" reminder. Safe to run
+// repeatedly: existing reminders are never duplicated.
+export async function generateReminders(
+  supabase: SupabaseClient,
+  {
+    today = localToday(),
+    daysBefore = reminderDaysBefore(),
+    userId,
+  }: ReminderJobOptions = {}
+): Promise<ReminderJobReport> {
+  const repo = createRepositories(supabase);
+  // For one user: their occasions and those of profiles shared with them,
+  // all reminding just that user. Otherwise every occasion reminds the
+  // profile's owner and its collaborators.
+  let occasions: Awaited<ReturnType<typeof repo.occasions.list>>;
+  let recipients: (occasion: (typeof occasions)[number]) => string[];
+  if (userId) {
+    occasions = await repo.occasions.list({
+      userId,
+      sharedProfileIds: await repo.shares.sharedProfileIds(userId),
+    });
+    recipients = () => [userId];
+  } else {
+    const [all, collaborators] = await Promise.all([
+      repo.occasions.list(),
+      repo.shares.collaboratorsByProfile(),
+    ]);
+    occasions = all;
+    recipients = (occasion) => [
+      occasion.userId,
+      ...(collaborators.get(occasion.profileId) ?? []),
+    ];
+  }
+
+  const due: NewReminder[] = occasions.flatMap((occasion) => {
+    const occasionDate = nextOccurrence(
+      occasion.date,
+      occasion.recurrence,
+      today
+    );
+    if (!occasionDate) return [];
+
+    const daysUntil = daysBetween(today, occasionDate);
+    const lead = Math.min(...daysBefore.filter((days) => days >= daysUntil));
+    if (!Number.isFinite(lead)) return [];
+
+    return recipients(occasion).map((recipient) => ({
+      userId: recipient,
+      profileId: occasion.profileId,
+      occasionId: occasion.id,
+      occasionDate,
+      daysBefore: lead,
+      remindOn: today,
+      ...reminderText(occasion.profileName, occasion.name, daysUntil),
+    }));
+  });
+
+  const created = await repo.reminders.createMissing(due);
+
+  return {
+    today,
+    daysBefore,
+    occasionsScanned: occasions.length,
+    remindersCreated: created.length,
+  };
+}
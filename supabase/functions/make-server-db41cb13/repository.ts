@@ -0,0 +1,1554 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type {
+  Budget,
+  Category,
+  GiftHistoryEntry,
+  GiftIdea,
+  Note,
+  Occasion,
+  Profile,
+  ProfileAttributes,
+  ProfileRole,
+  ProfileShare,
+  Reminder,
+  ShareRole,
+  UpdateGiftIdeaRequest,
+  UpdateOccasionRequest,
+  UpdateProfileRequest,
+} from "../_shared/contracts.ts";
+
+// Data access for the profiles / profile_shares / categories / notes /
+// gift_ideas / gift_history / occasions / reminders / budgets / plans tables.
+// Routes work with the camelCase contract types; the snake_case row mapping
+// lives only here. Every query is scoped by user_id because the service
+// client bypasses RLS; for shared profiles that is the owner's id (see
+// ProfileShareRepository.access).
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]" strings
+function parseVector(value: unknown): number[] {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value === "string" && value.length > 2) return JSON.parse(value);
+  return [];
+}
+
+// Client-generated ids are upserted, so make sure none of them already
+// belongs to another user, or to another of the owner's profiles (which a
+// collaborator on this one may not have access to), before writing
+async function idsOwnedByOthers(
+  supabase: SupabaseClient,
+  table: string,
+  userId: string,
+  profileId: string,
+  ids: string[]
+) {
+  if (ids.length === 0) return new Set<string>();
+  const rows = check(
+    await supabase
+      .from(table)
+      .select("id")
+      .in("id", ids)
+      .or(`user_id.neq.${userId},profile_id.neq.${profileId}`)
+  );
+  return new Set((rows ?? []).map((row: { id: string }) => row.id));
+}
+
+function check<T>({
+  data,
+  error,
+}: {
+  data: T;
+  error: { message: string } | null;
+}) {
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
+
+// ---- Profiles ----
+
+function toProfile(row: any): Profile {
+  return {
+    id: row.id,
+    name: row.name,
+    avatar: row.avatar ?? "",
+    avatarThumb: row.avatar_thumb ?? "",
+    description: row.description ?? "",
+    attributes: row.attributes ?? {},
+    userId: row.user_id,
+    createdAt: row.created_at,
+    ...(row.role ? { role: row.role } : {}),
+    ...(row.shared_by ? { sharedBy: row.shared_by } : {}),
+  };
+}
+
+export class ProfileRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByUser(userId: string) {
+    const rows = check(
+      await this.supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+    );
+    return (rows ?? []).map(toProfile);
+  }
+
+  async countByUser(userId: string) {
+    const { count, error } = await this.supabase
+      .from("profiles")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return count ?? 0;
+  }
+
+  async get(userId: string, profileId: string) {
+    const row = check(
+      await this.supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("id", profileId)
+        .maybeSingle()
+    );
+    return row ? toProfile(row) : null;
+  }
+
+  // Case-insensitive exact match, used when ChatGPT refers to "Mom"
+  async findByName(userId: string, name: string) {
+    const rows = check(
+      await this.supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .ilike("name", name.trim().replace(/[%_\\]/g, "\\$&"))
+        .order("created_at", { ascending: true })
+        .limit(1)
+    );
+    return rows?.[0] ? toProfile(rows[0]) : null;
+  }
+
+  async create(
+    profile: Required<
+      Omit<
+        Profile,
+        "avatar" | "avatarThumb" | "attributes" | "role" | "sharedBy"
+      >
+    > & {
+      avatar: string;
+      attributes?: ProfileAttributes;
+    }
+  ) {
+    const row = check(
+      await this.supabase
+        .from("profiles")
+        .insert({
+          id: profile.id,
+          user_id: profile.userId,
+          name: profile.name,
+          avatar: profile.avatar,
+          description: profile.description,
+          attributes: profile.attributes ?? {},
+          created_at: profile.createdAt,
+          updated_at: profile.createdAt,
+        })
+        .select("*")
+        .single()
+    );
+    return toProfile(row);
+  }
+
+  // Applies only the fields present in `changes`; returns null when the
+  // profile doesn't exist for this user. A new name reaches memory_items
+  // through the profiles_sync_memory_items trigger, and a new avatar link
+  // replaces any uploaded avatar.
+  async update(
+    userId: string,
+    profileId: string,
+    changes: UpdateProfileRequest
+  ) {
+    const columns: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (changes.name !== undefined) columns.name = changes.name;
+    if (changes.avatar !== undefined) {
+      columns.avatar = changes.avatar;
+      columns.avatar_thumb = "";
+      columns.avatar_path = null;
+    }
+    if (changes.description !== undefined) {
+      columns.description = changes.description;
+    }
+    if (changes.attributes !== undefined) {
+      columns.attributes = changes.attributes;
+    }
+
+    const row = check(
+      await this.supabase
+        .from("profiles")
+        .update(columns)
+        .eq("user_id", userId)
+        .eq("id", profileId)
+        .select("*")
+        .maybeSingle()
+    );
+    return row ? toProfile(row) : null;
+  }
+
+  // Storage folder of the profile's uploaded avatar; null for a link or no
+  // avatar, undefined when the profile doesn't exist
+  async avatarPath(userId: string, profileId: string) {
+    const row = check(
+      await this.supabase
+        .from("profiles")
+        .select("avatar_path")
+        .eq("user_id", userId)
+        .eq("id", profileId)
+        .maybeSingle()
+    );
+    return row ? ((row.avatar_path as string | null) ?? null) : undefined;
+  }
+
+  async setAvatar(
+    userId: string,
+    profileId: string,
+    avatar: { url: string; thumbUrl: string; path: string | null }
+  ) {
+    const row = check(
+      await this.supabase
+        .from("profiles")
+        .update({
+          avatar: avatar.url,
+          avatar_thumb: avatar.thumbUrl,
+          avatar_path: avatar.path,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId)
+        .eq("id", profileId)
+        .select("*")
+        .maybeSingle()
+    );
+    return row ? toProfile(row) : null;
+  }
+
+  // Categories and notes go with it via ON DELETE CASCADE
+  async delete(userId: string, profileId: string) {
+    check(
+      await this.supabase
+        .from("profiles")
+        .delete()
+        .eq("user_id", userId)
+        .eq("id", profileId)
+    );
+  }
+}
+
+// ---- Sharing ----
+
+// What a user may do with a profile, and whose data it is
+export interface ProfileAccess {
+  ownerId: string;
+  role: ProfileRole;
+}
+
+function toProfileShare(row: any): ProfileShare {
+  return {
+    userId: row.user_id,
+    email: row.email ?? "",
+    name: row.name ?? undefined,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
+export class ProfileShareRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Null when the profile doesn't exist or isn't the user's nor shared with
+  // them
+  async access(
+    userId: string,
+    profileId: string
+  ): Promise<ProfileAccess | null> {
+    const profile = check(
+      await this.supabase
+        .from("profiles")
+        .select("user_id")
+        .eq("id", profileId)
+        .maybeSingle()
+    );
+    if (!profile) return null;
+    if (profile.user_id === userId) {
+      return { ownerId: userId, role: "owner" };
+    }
+
+    const share = check(
+      await this.supabase
+        .from("profile_shares")
+        .select("role")
+        .eq("profile_id", profileId)
+        .eq("user_id", userId)
+        .maybeSingle()
+    );
+    return share ? { ownerId: profile.user_id, role: share.role } : null;
+  }
+
+  // Ids of the profiles shared with this user, for reads that span all the
+  // profiles a user can see (see ownedOrShared)
+  async sharedProfileIds(userId: string) {
+    const rows = check(
+      await this.supabase
+        .from("profile_shares")
+        .select("profile_id")
+        .eq("user_id", userId)
+    );
+    return (rows ?? []).map((row: { profile_id: string }) => row.profile_id);
+  }
+
+  // Collaborators per profile, of everyone's profiles (cron jobs)
+  async collaboratorsByProfile() {
+    const rows = check(
+      await this.supabase.from("profile_shares").select("profile_id, user_id")
+    );
+    const collaborators = new Map<string, string[]>();
+    for (const row of (rows ?? []) as {
+      profile_id: string;
+      user_id: string;
+    }[]) {
+      collaborators.set(row.profile_id, [
+        ...(collaborators.get(row.profile_id) ?? []),
+        row.user_id,
+      ]);
+    }
+    return collaborators;
+  }
+
+  // Profiles other users shared with this one, with role and sharedBy set
+  async listSharedWith(userId: string) {
+    const rows = check(
+      await this.supabase.rpc("shared_profiles", { p_user_id: userId })
+    );
+    return ((rows ?? []) as any[]).map(toProfile);
+  }
+
+  async listByProfile(profileId: string) {
+    const rows = check(
+      await this.supabase.rpc("profile_collaborators", {
+        p_profile_id: profileId,
+      })
+    );
+    return ((rows ?? []) as any[]).map(toProfileShare);
+  }
+
+  async get(profileId: string, userId: string) {
+    const shares = await this.listByProfile(profileId);
+    return shares.find((share) => share.userId === userId) ?? null;
+  }
+
+  async findUserIdByEmail(email: string) {
+    const id = check(
+      await this.supabase.rpc("user_id_by_email", { p_email: email })
+    );
+    return (id as string | null) ?? null;
+  }
+
+  // Adds the user, or gives an existing collaborator the new role
+  async upsert(
+    profileId: string,
+    userId: string,
+    role: ShareRole,
+    invitedBy: string
+  ) {
+    check(
+      await this.supabase.from("profile_shares").upsert(
+        {
+          profile_id: profileId,
+          user_id: userId,
+          role,
+          invited_by: invitedBy,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "profile_id,user_id" }
+      )
+    );
+    return this.get(profileId, userId);
+  }
+
+  // False when the user isn't a collaborator
+  async updateRole(profileId: string, userId: string, role: ShareRole) {
+    const row = check(
+      await this.supabase
+        .from("profile_shares")
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq("profile_id", profileId)
+        .eq("user_id", userId)
+        .select("user_id")
+        .maybeSingle()
+    );
+    return row !== null;
+  }
+
+  async delete(profileId: string, userId: string) {
+    const row = check(
+      await this.supabase
+        .from("profile_shares")
+        .delete()
+        .eq("profile_id", profileId)
+        .eq("user_id", userId)
+        .select("user_id")
+        .maybeSingle()
+    );
+    return row !== null;
+  }
+}
+
+// PostgREST filter for rows of the user's own profiles plus the profiles
+// shared with them, whose rows belong to their owners
+function ownedOrShared(userId: string, sharedProfileIds: string[]) {
+  return sharedProfileIds.length > 0
+    ? `user_id.eq.${userId},profile_id.in.(${sharedProfileIds.join(",")})`
+    : `user_id.eq.${userId}`;
+}
+
+// ---- Categories ----
+
+function toCategory(row: any): Category {
+  return {
+    id: row.id,
+    name: row.name,
+    position: row.position ?? 0,
+    profileId: row.profile_id,
+    userId: row.user_id,
+    createdAt: row.created_at,
+  };
+}
+
+export class CategoryRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  idsOwnedByOthers(userId: string, profileId: string, ids: string[]) {
+    return idsOwnedByOthers(
+      this.supabase,
+      "categories",
+      userId,
+      profileId,
+      ids
+    );
+  }
+
+  async listByProfile(userId: string, profileId: string) {
+    const rows = check(
+      await this.supabase
+        .from("categories")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true })
+    );
+    return (rows ?? []).map(toCategory);
+  }
+
+  // Returns null when the category isn't one of this profile's
+  async rename(
+    userId: string,
+    profileId: string,
+    categoryId: string,
+    name: string
+  ) {
+    const row = check(
+      await this.supabase
+        .from("categories")
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", categoryId)
+        .select("*")
+        .maybeSingle()
+    );
+    return row ? toCategory(row) : null;
+  }
+
+  async reorder(userId: string, profileId: string, categoryIds: string[]) {
+    check(
+      await this.supabase.rpc("reorder_categories", {
+        p_user_id: userId,
+        p_profile_id: profileId,
+        p_category_ids: categoryIds,
+      })
+    );
+  }
+
+  // Notes go with it via ON DELETE CASCADE, and their memory_items rows and
+  // gift idea links with them. Returns the number of notes deleted, or null
+  // when the category isn't one of this profile's.
+  async delete(userId: string, profileId: string, categoryId: string) {
+    const { count, error } = await this.supabase
+      .from("notes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("category_id", categoryId);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = check(
+      await this.supabase
+        .from("categories")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", categoryId)
+        .select("id")
+    );
+    return rows && rows.length > 0 ? (count ?? 0) : null;
+  }
+}
+
+// ---- Notes ----
+
+// Listing without vectors keeps payloads small where they aren't needed
+const NOTE_COLUMNS_WITHOUT_EMBEDDING =
+  "id, profile_id, category_id, user_id, entry, embedding_model, embedding_dim, content_hash, created_at, updated_at";
+
+// A note as read from the table, where owner and profile are always set
+export type StoredNote = Note & Required<Pick<Note, "userId" | "profileId">>;
+
+function toNote(row: any): StoredNote {
+  return {
+    id: row.id,
+    entry: row.entry ?? "",
+    categoryId: row.category_id,
+    profileId: row.profile_id,
+    userId: row.user_id,
+    ...(row.embedding !== undefined
+      ? { embedding: parseVector(row.embedding) }
+      : {}),
+    embeddingModel: row.embedding_model ?? undefined,
+    embeddingDim: row.embedding_dim ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// A note as written by /submit. Without an embedding, an existing note
+// keeps its stored vector (its text hasn't changed).
+export type NoteRecord = Required<
+  Omit<Note, "embedding" | "embeddingModel" | "embeddingDim" | "contentHash">
+> &
+  Pick<Note, "embedding" | "embeddingModel" | "embeddingDim" | "contentHash">;
+
+export class NoteRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  idsOwnedByOthers(userId: string, profileId: string, ids: string[]) {
+    return idsOwnedByOthers(this.supabase, "notes", userId, profileId, ids);
+  }
+
+  async listByProfile(
+    userId: string,
+    profileId: string,
+    { withEmbeddings = true } = {}
+  ) {
+    const rows = check(
+      await this.supabase
+        .from("notes")
+        .select(withEmbeddings ? "*" : NOTE_COLUMNS_WITHOUT_EMBEDDING)
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .order("created_at", { ascending: true })
+    );
+    return ((rows ?? []) as any[]).map(toNote);
+  }
+
+  // All notes for one user, or for everyone when userId is omitted (admin jobs)
+  async list({ userId }: { userId?: string } = {}) {
+    let query = this.supabase
+      .from("notes")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (userId) query = query.eq("user_id", userId);
+    const rows = check(await query);
+    return (rows ?? []).map(toNote);
+  }
+
+  // Writes a /submit batch in one transaction via save_notes(); the
+  // memory_items rows follow through the notes_sync_memory_item trigger.
+  // Notes with a baseUpdatedAt are only overwritten if they still have that
+  // updatedAt; otherwise nothing is written and the ids of the notes that
+  // changed are returned.
+  async saveBatch(
+    categories: (Required<Omit<Category, "position">> &
+      Pick<Category, "position">)[],
+    notes: (NoteRecord & { baseUpdatedAt?: string })[]
+  ) {
+    const conflicts = check(
+      await this.supabase.rpc("save_notes", {
+        p_categories: categories.map((category) => ({
+          id: category.id,
+          profile_id: category.profileId,
+          user_id: category.userId,
+          name: category.name,
+          position: category.position,
+          created_at: category.createdAt,
+        })),
+        p_notes: notes.map((note) => ({
+          id: note.id,
+          profile_id: note.profileId,
+          category_id: note.categoryId,
+          user_id: note.userId,
+          entry: note.entry,
+          embedding: note.embedding,
+          embedding_model: note.embeddingModel,
+          embedding_dim: note.embeddingDim,
+          content_hash: note.contentHash,
+          created_at: note.createdAt,
+          updated_at: note.updatedAt,
+          base_updated_at: note.baseUpdatedAt,
+        })),
+      })
+    );
+    return ((conflicts ?? []) as { note_id: string }[]).map(
+      (row) => row.note_id
+    );
+  }
+
+  async countByProfile(userId: string, profileId: string) {
+    const { count, error } = await this.supabase
+      .from("notes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("profile_id", profileId);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return count ?? 0;
+  }
+
+  // Which of `ids` are notes of this profile; used to validate links to notes
+  async existingIds(userId: string, profileId: string, ids: string[]) {
+    if (ids.length === 0) return new Set<string>();
+    const rows = check(
+      await this.supabase
+        .from("notes")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .in("id", ids)
+    );
+    return new Set((rows ?? []).map((row: { id: string }) => row.id));
+  }
+
+  // The profile's notes among `ids`, without vectors. /submit uses them to
+  // tell which texts actually changed and which were saved elsewhere.
+  async getMany(userId: string, profileId: string, ids: string[]) {
+    if (ids.length === 0) return new Map<string, Note>();
+    const rows = check(
+      await this.supabase
+        .from("notes")
+        .select(NOTE_COLUMNS_WITHOUT_EMBEDDING)
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .in("id", ids)
+    );
+    return new Map(
+      ((rows ?? []) as any[]).map((row) => [row.id as string, toNote(row)])
+    );
+  }
+
+  // Notes whose vector wasn't produced by the given model/size, i.e. the
+  // ones vector search can't compare against the query yet
+  async listStale(
+    userId: string,
+    {
+      profileId,
+      modelId,
+      dimensions,
+      limit = 200,
+    }: {
+      profileId?: string;
+      modelId: string;
+      dimensions: number;
+      limit?: number;
+    }
+  ) {
+    let query = this.supabase
+      .from("notes")
+      .select(NOTE_COLUMNS_WITHOUT_EMBEDDING)
+      .eq("user_id", userId)
+      .or(
+        `embedding_model.is.null,embedding_model.neq."${modelId}",embedding_dim.is.null,embedding_dim.neq.${dimensions}`
+      )
+      .limit(limit);
+    if (profileId) query = query.eq("profile_id", profileId);
+    const rows = check(await query);
+    return ((rows ?? []) as any[]).map(toNote);
+  }
+
+  // Replaces only the vector and its metadata; entry/updatedAt are untouched
+  async updateEmbedding(
+    userId: string,
+    noteId: string,
+    fields: Required<
+      Pick<
+        Note,
+        "embedding" | "embeddingModel" | "embeddingDim" | "contentHash"
+      >
+    >
+  ) {
+    check(
+      await this.supabase
+        .from("notes")
+        .update({
+          embedding: fields.embedding,
+          embedding_model: fields.embeddingModel,
+          embedding_dim: fields.embeddingDim,
+          content_hash: fields.contentHash,
+        })
+        .eq("user_id", userId)
+        .eq("id", noteId)
+    );
+  }
+
+  async delete(userId: string, profileId: string, noteId: string) {
+    check(
+      await this.supabase
+        .from("notes")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", noteId)
+    );
+  }
+}
+
+// ---- Gift ideas ----
+
+function toGiftIdea(row: any): GiftIdea {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    title: row.title,
+    url: row.url ?? null,
+    // numeric columns come back as strings
+    price: row.price === null ? null : Number(row.price),
+    currency: row.currency,
+    status: row.status,
+    occasion: row.occasion ?? null,
+    occasionId: row.occasion_id ?? null,
+    noteIds: row.note_ids ?? [],
+    statusChangedAt: row.status_changed_at,
+    purchasedAt: row.purchased_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class GiftIdeaRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByProfile(userId: string, profileId: string) {
+    const rows = check(
+      await this.supabase
+        .from("gift_ideas")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .order("created_at", { ascending: true })
+    );
+    return (rows ?? []).map(toGiftIdea);
+  }
+
+  async get(userId: string, profileId: string, giftId: string) {
+    const row = check(
+      await this.supabase
+        .from("gift_ideas")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", giftId)
+        .maybeSingle()
+    );
+    return row ? toGiftIdea(row) : null;
+  }
+
+  async create(
+    userId: string,
+    gift: Omit<GiftIdea, "statusChangedAt" | "updatedAt">
+  ) {
+    const row = check(
+      await this.supabase
+        .from("gift_ideas")
+        .insert({
+          id: gift.id,
+          profile_id: gift.profileId,
+          user_id: userId,
+          title: gift.title,
+          url: gift.url,
+          price: gift.price,
+          currency: gift.currency,
+          status: gift.status,
+          occasion: gift.occasion,
+          occasion_id: gift.occasionId,
+          note_ids: gift.noteIds,
+          status_changed_at: gift.createdAt,
+          purchased_at: gift.purchasedAt,
+          created_at: gift.createdAt,
+          updated_at: gift.createdAt,
+        })
+        .select("*")
+        .single()
+    );
+    return toGiftIdea(row);
+  }
+
+  // Applies only the fields present in `changes`; returns null when the
+  // gift doesn't exist for this user/profile
+  async update(
+    userId: string,
+    profileId: string,
+    giftId: string,
+    changes: UpdateGiftIdeaRequest & {
+      statusChangedAt?: string;
+      purchasedAt?: string | null;
+    }
+  ) {
+    const now = new Date().toISOString();
+    const columns: Record<string, unknown> = { updated_at: now };
+    if (changes.title !== undefined) columns.title = changes.title;
+    if (changes.url !== undefined) columns.url = changes.url;
+    if (changes.price !== undefined) columns.price = changes.price;
+    if (changes.currency !== undefined) columns.currency = changes.currency;
+    if (changes.status !== undefined) columns.status = changes.status;
+    if (changes.occasion !== undefined) columns.occasion = changes.occasion;
+    if (changes.occasionId !== undefined) {
+      columns.occasion_id = changes.occasionId;
+    }
+    if (changes.noteIds !== undefined) columns.note_ids = changes.noteIds;
+    if (changes.statusChangedAt !== undefined) {
+      columns.status_changed_at = changes.statusChangedAt;
+    }
+    if (changes.purchasedAt !== undefined) {
+      columns.purchased_at = changes.purchasedAt;
+    }
+
+    const row = check(
+      await this.supabase
+        .from("gift_ideas")
+        .update(columns)
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", giftId)
+        .select("*")
+        .maybeSingle()
+    );
+    return row ? toGiftIdea(row) : null;
+  }
+
+  async delete(userId: string, profileId: string, giftId: string) {
+    check(
+      await this.supabase
+        .from("gift_ideas")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", giftId)
+    );
+  }
+}
+
+// ---- Gift history ----
+
+function toGiftHistoryEntry(row: any): GiftHistoryEntry {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    giftIdeaId: row.gift_idea_id ?? null,
+    title: row.title,
+    price: row.price === null ? null : Number(row.price),
+    currency: row.currency,
+    occasion: row.occasion ?? null,
+    givenOn: row.given_on,
+    createdAt: row.created_at,
+  };
+}
+
+const GIFT_HISTORY_COLUMNS =
+  "id, profile_id, gift_idea_id, title, price, currency, occasion, given_on, created_at";
+
+export interface TitleEmbedding {
+  embedding: number[];
+  embeddingModel: string;
+  embeddingDim: number;
+}
+
+export class GiftHistoryRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByProfile(userId: string, profileId: string) {
+    const rows = check(
+      await this.supabase
+        .from("gift_history")
+        .select(GIFT_HISTORY_COLUMNS)
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .order("given_on", { ascending: false })
+    );
+    return (rows ?? []).map(toGiftHistoryEntry);
+  }
+
+  // Records a given gift once per gift idea; returns null if the idea was
+  // already in the history (e.g. moved back and forth to "given")
+  async record(
+    userId: string,
+    entry: Omit<GiftHistoryEntry, "id" | "createdAt">,
+    embedding: TitleEmbedding | null
+  ) {
+    const rows = check(
+      await this.supabase
+        .from("gift_history")
+        .upsert(
+          {
+            profile_id: entry.profileId,
+            user_id: userId,
+            gift_idea_id: entry.giftIdeaId,
+            title: entry.title,
+            price: entry.price,
+            currency: entry.currency,
+            occasion: entry.occasion,
+            given_on: entry.givenOn,
+            embedding: embedding?.embedding ?? null,
+            embedding_model: embedding?.embeddingModel ?? null,
+            embedding_dim: embedding?.embeddingDim ?? null,
+          },
+          { onConflict: "gift_idea_id", ignoreDuplicates: true }
+        )
+        .select(GIFT_HISTORY_COLUMNS)
+    );
+    return rows?.[0] ? toGiftHistoryEntry(rows[0]) : null;
+  }
+
+  // Entries of the profile with no embedding, or one from another model
+  async listStale(
+    userId: string,
+    profileId: string,
+    { modelId, dimensions }: { modelId: string; dimensions: number }
+  ) {
+    const rows = check(
+      await this.supabase
+        .from("gift_history")
+        .select("id, title")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .or(
+          `embedding_model.is.null,embedding_model.neq."${modelId}",embedding_dim.is.null,embedding_dim.neq.${dimensions}`
+        )
+    );
+    return (rows ?? []) as { id: string; title: string }[];
+  }
+
+  async setEmbedding(userId: string, id: string, embedding: TitleEmbedding) {
+    check(
+      await this.supabase
+        .from("gift_history")
+        .update({
+          embedding: embedding.embedding,
+          embedding_model: embedding.embeddingModel,
+          embedding_dim: embedding.embeddingDim,
+        })
+        .eq("user_id", userId)
+        .eq("id", id)
+    );
+  }
+
+  // Earlier gifts to the profile whose title embedding is close to
+  // `embedding`, via match_gift_history()
+  async match(
+    userId: string,
+    profileId: string,
+    {
+      embedding,
+      modelId,
+      limit = 3,
+      minScore = 0,
+    }: {
+      embedding: number[];
+      modelId: string;
+      limit?: number;
+      minScore?: number;
+    }
+  ) {
+    const rows = check(
+      await this.supabase.rpc("match_gift_history", {
+        p_user_id: userId,
+        p_profile_id: profileId,
+        p_query_embedding: embedding,
+        p_embedding_model: modelId,
+        p_match_count: limit,
+        p_min_score: minScore,
+      })
+    );
+    return ((rows ?? []) as any[]).map((row) => ({
+      ...toGiftHistoryEntry(row),
+      similarity: row.similarity as number,
+    }));
+  }
+
+  async delete(userId: string, profileId: string, entryId: string) {
+    check(
+      await this.supabase
+        .from("gift_history")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", entryId)
+    );
+  }
+}
+
+// ---- Occasions ----
+
+function toOccasion(row: any): Occasion {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    name: row.name,
+    type: row.type,
+    date: row.date,
+    recurrence: row.recurrence,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class OccasionRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByProfile(userId: string, profileId: string) {
+    const rows = check(
+      await this.supabase
+        .from("occasions")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .order("date", { ascending: true })
+    );
+    return (rows ?? []).map(toOccasion);
+  }
+
+  // Occasions of one user (and of the profiles shared with them), or of
+  // everyone when userId is omitted (cron jobs)
+  async list({
+    userId,
+    sharedProfileIds = [],
+  }: { userId?: string; sharedProfileIds?: string[] } = {}) {
+    let query = this.supabase.from("occasions").select("*, profiles(name)");
+    if (userId) query = query.or(ownedOrShared(userId, sharedProfileIds));
+    const rows = check(await query);
+    return ((rows ?? []) as any[]).map((row) => ({
+      ...toOccasion(row),
+      userId: row.user_id as string,
+      profileName: (row.profiles?.name ?? "") as string,
+    }));
+  }
+
+  async get(userId: string, profileId: string, occasionId: string) {
+    const row = check(
+      await this.supabase
+        .from("occasions")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", occasionId)
+        .maybeSingle()
+    );
+    return row ? toOccasion(row) : null;
+  }
+
+  async create(userId: string, occasion: Omit<Occasion, "updatedAt">) {
+    const row = check(
+      await this.supabase
+        .from("occasions")
+        .insert({
+          id: occasion.id,
+          profile_id: occasion.profileId,
+          user_id: userId,
+          name: occasion.name,
+          type: occasion.type,
+          date: occasion.date,
+          recurrence: occasion.recurrence,
+          created_at: occasion.createdAt,
+          updated_at: occasion.createdAt,
+        })
+        .select("*")
+        .single()
+    );
+    return toOccasion(row);
+  }
+
+  // Applies only the fields present in `changes`; returns null when the
+  // occasion doesn't exist for this user/profile
+  async update(
+    userId: string,
+    profileId: string,
+    occasionId: string,
+    changes: UpdateOccasionRequest
+  ) {
+    const columns: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (changes.name !== undefined) columns.name = changes.name;
+    if (changes.type !== undefined) columns.type = changes.type;
+    if (changes.date !== undefined) columns.date = changes.date;
+    if (changes.recurrence !== undefined) {
+      columns.recurrence = changes.recurrence;
+    }
+
+    const row = check(
+      await this.supabase
+        .from("occasions")
+        .update(columns)
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", occasionId)
+        .select("*")
+        .maybeSingle()
+    );
+    return row ? toOccasion(row) : null;
+  }
+
+  async delete(userId: string, profileId: string, occasionId: string) {
+    check(
+      await this.supabase
+        .from("occasions")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", occasionId)
+    );
+  }
+}
+
+// ---- Reminders ----
+
+function toReminder(row: any): Reminder {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    occasionId: row.occasion_id,
+    occasionDate: row.occasion_date,
+    daysBefore: row.days_before,
+    remindOn: row.remind_on,
+    title: row.title,
+    message: row.message ?? "",
+    deliveredAt: row.delivered_at ?? null,
+    readAt: row.read_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export type NewReminder = Omit<
+  Reminder,
+  "id" | "deliveredAt" | "readAt" | "createdAt"
+> & { userId: string };
+
+export class ReminderRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Inserts the reminders that don't exist yet (same recipient, occasion,
+  // date and lead time) and returns only the new ones
+  async createMissing(reminders: NewReminder[]) {
+    if (reminders.length === 0) return [];
+    const rows = check(
+      await this.supabase
+        .from("reminders")
+        .upsert(
+          reminders.map((reminder) => ({
+            user_id: reminder.userId,
+            profile_id: reminder.profileId,
+            occasion_id: reminder.occasionId,
+            occasion_date: reminder.occasionDate,
+            days_before: reminder.daysBefore,
+            remind_on: reminder.remindOn,
+            title: reminder.title,
+            message: reminder.message,
+          })),
+          {
+            onConflict: "user_id,occasion_id,occasion_date,days_before",
+            ignoreDuplicates: true,
+          }
+        )
+        .select("*")
+    );
+    return (rows ?? []).map(toReminder);
+  }
+
+  // Reminders due on or before `today`, newest first
+  async listDue(userId: string, today: string, { limit = 50 } = {}) {
+    const rows = check(
+      await this.supabase
+        .from("reminders")
+        .select("*")
+        .eq("user_id", userId)
+        .lte("remind_on", today)
+        .order("remind_on", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit)
+    );
+    return (rows ?? []).map(toReminder);
+  }
+
+  async markRead(userId: string, ids: string[]) {
+    await this.stamp(userId, ids, "read_at");
+  }
+
+  async markDelivered(userId: string, ids: string[]) {
+    await this.stamp(userId, ids, "delivered_at");
+  }
+
+  // Sets the timestamp once; already-stamped reminders keep their time
+  private async stamp(
+    userId: string,
+    ids: string[],
+    column: "read_at" | "delivered_at"
+  ) {
+    if (ids.length === 0) return;
+    check(
+      await this.supabase
+        .from("reminders")
+        .update({ [column]: new Date().toISOString() })
+        .eq("user_id", userId)
+        .in("id", ids)
+        .is(column, null)
+    );
+  }
+}
+
+// ---- Budgets ----
+
+function toBudget(row: any): Budget {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    occasionId: row.occasion_id ?? null,
+    year: row.year,
+    amount: Number(row.amount),
+    currency: row.currency,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// A row of the gift_spend view: a purchased gift idea with a price
+export interface SpendRecord {
+  giftId: string;
+  profileId: string;
+  occasionId: string | null;
+  title: string;
+  amount: number;
+  currency: string;
+  purchasedAt: string;
+}
+
+export class BudgetRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByProfile(userId: string, profileId: string, year?: number) {
+    let query = this.supabase
+      .from("budgets")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("profile_id", profileId);
+    if (year !== undefined) query = query.eq("year", year);
+    const rows = check(await query.order("year", { ascending: false }));
+    return (rows ?? []).map(toBudget);
+  }
+
+  async listByYear(
+    userId: string,
+    year: number,
+    sharedProfileIds: string[] = []
+  ) {
+    const rows = check(
+      await this.supabase
+        .from("budgets")
+        .select("*")
+        .or(ownedOrShared(userId, sharedProfileIds))
+        .eq("year", year)
+    );
+    return (rows ?? []).map(toBudget);
+  }
+
+  // Creates the budget or replaces the amount of the existing one for the
+  // same profile, year and occasion
+  async set(
+    userId: string,
+    budget: Omit<Budget, "id" | "createdAt" | "updatedAt">
+  ) {
+    const row = check(
+      await this.supabase
+        .from("budgets")
+        .upsert(
+          {
+            profile_id: budget.profileId,
+            user_id: userId,
+            occasion_id: budget.occasionId,
+            year: budget.year,
+            amount: budget.amount,
+            currency: budget.currency,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "profile_id,year,occasion_id" }
+        )
+        .select("*")
+        .single()
+    );
+    return toBudget(row);
+  }
+
+  async delete(userId: string, profileId: string, budgetId: string) {
+    check(
+      await this.supabase
+        .from("budgets")
+        .delete()
+        .eq("user_id", userId)
+        .eq("profile_id", profileId)
+        .eq("id", budgetId)
+    );
+  }
+
+  // Gifts purchased during `year`
+  async spend(
+    userId: string,
+    year: number,
+    sharedProfileIds: string[] = []
+  ): Promise<SpendRecord[]> {
+    const rows = check(
+      await this.supabase
+        .from("gift_spend")
+        .select("*")
+        .or(ownedOrShared(userId, sharedProfileIds))
+        .gte("purchased_at", `${year}-01-01`)
+        .lt("purchased_at", `${year + 1}-01-01`)
+    );
+    return ((rows ?? []) as any[]).map((row) => ({
+      giftId: row.gift_id,
+      profileId: row.profile_id,
+      occasionId: row.occasion_id ?? null,
+      title: row.title,
+      amount: Number(row.amount),
+      currency: row.currency,
+      purchasedAt: row.purchased_at,
+    }));
+  }
+}
+
+// ---- Plans and quotas ----
+
+// A user's effective limits: their plan's, with per-user overrides applied.
+// null means unlimited.
+export interface PlanLimits {
+  plan: string;
+  planName: string;
+  maxProfiles: number | null;
+  maxNotesPerProfile: number | null;
+  maxEmbeddingsPerDay: number | null;
+}
+
+const DEFAULT_PLAN = "free";
+
+export class QuotaRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async limits(userId: string): Promise<PlanLimits> {
+    const override = check(
+      await this.supabase
+        .from("user_limits")
+        .select("*, plans(*)")
+        .eq("user_id", userId)
+        .maybeSingle()
+    ) as any;
+    const plan =
+      override?.plans ??
+      check(
+        await this.supabase
+          .from("plans")
+          .select("*")
+          .eq("id", DEFAULT_PLAN)
+          .maybeSingle()
+      );
+    if (!plan) {
+      throw new Error(`Plan "${override?.plan_id ?? DEFAULT_PLAN}" not found`);
+    }
+
+    const pick = (column: string): number | null =>
+      override?.[column] ?? plan[column] ?? null;
+    return {
+      plan: plan.id,
+      planName: plan.name,
+      maxProfiles: pick("max_profiles"),
+      maxNotesPerProfile: pick("max_notes_per_profile"),
+      maxEmbeddingsPerDay: pick("max_embeddings_per_day"),
+    };
+  }
+
+  async embeddingsUsed(userId: string, day: string) {
+    const row = check(
+      await this.supabase
+        .from("embedding_usage")
+        .select("count")
+        .eq("user_id", userId)
+        .eq("day", day)
+        .maybeSingle()
+    );
+    return (row?.count as number | undefined) ?? 0;
+  }
+
+  // Records `count` embeddings for today; false (and nothing recorded) when
+  // that would exceed `limit`
+  async consumeEmbeddings(userId: string, count: number, limit: number | null) {
+    return check(
+      await this.supabase.rpc("consume_embedding_quota", {
+        p_user_id: userId,
+        p_count: count,
+        p_limit: limit,
+      })
+    ) as boolean;
+  }
+
+  // Takes `count` embeddings back off today's usage
+  async refundEmbeddings(userId: string, count: number) {
+    check(
+      await this.supabase.rpc("refund_embedding_quota", {
+        p_user_id: userId,
+        p_count: count,
+      })
+    );
+  }
+}
+
+// ---- memory_items (derived from notes, see the memory_items_sync migration) ----
+
+export type DriftIssue = "missing" | "mismatched" | "orphaned";
+
+// Fields shared by every search hit, whichever signal found it
+export interface MemoryItemHit {
+  noteId: string;
+  profileId: string;
+  categoryId: string;
+  entry: string;
+}
+
+export class MemoryItemRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  // Compares a user's notes with their memory_items rows; with `repair` the
+  // drift is fixed in the same transaction. Returns the pre-repair findings.
+  async reconcile(userId: string, repair: boolean) {
+    const rows = check(
+      await this.supabase.rpc("reconcile_memory_items", {
+        p_user_id: userId,
+        p_repair: repair,
+      })
+    );
+    return ((rows ?? []) as { note_id: string; issue: DriftIssue }[]).map(
+      (row) => ({ noteId: row.note_id, issue: row.issue })
+    );
+  }
+
+  // Nearest neighbours of `embedding` via match_memory_items(); only rows
+  // embedded by `modelId` are considered
+  async match(
+    userId: string,
+    {
+      embedding,
+      modelId,
+      limit = 10,
+      minScore = 0,
+      profileId,
+      categoryIds,
+    }: {
+      embedding: number[];
+      modelId: string;
+      limit?: number;
+      minScore?: number;
+      profileId?: string;
+      categoryIds?: string[];
+    }
+  ) {
+    const rows = check(
+      await this.supabase.rpc("match_memory_items", {
+        p_user_id: userId,
+        p_query_embedding: embedding,
+        p_embedding_model: modelId,
+        p_match_count: limit,
+        p_min_score: minScore,
+        p_profile_id: profileId ?? null,
+        p_category_ids: categoryIds?.length ? categoryIds : null,
+      })
+    );
+    return ((rows ?? []) as any[]).map((row) => ({
+      noteId: row.id as string,
+      profileId: row.profile_id as string,
+      categoryId: row.category_id as string,
+      entry: (row.entry ?? "") as string,
+      similarity: row.similarity as number,
+    }));
+  }
+
+  // Full-text matches for any word of `query` via search_memory_items_text(),
+  // best ts_rank_cd first
+  async searchText(
+    userId: string,
+    {
+      query,
+      limit = 10,
+      profileId,
+      categoryIds,
+    }: {
+      query: string;
+      limit?: number;
+      profileId?: string;
+      categoryIds?: string[];
+    }
+  ) {
+    const rows = check(
+      await this.supabase.rpc("search_memory_items_text", {
+        p_user_id: userId,
+        p_query: query,
+        p_match_count: limit,
+        p_profile_id: profileId ?? null,
+        p_category_ids: categoryIds?.length ? categoryIds : null,
+      })
+    );
+    return ((rows ?? []) as any[]).map((row) => ({
+      noteId: row.id as string,
+      profileId: row.profile_id as string,
+      categoryId: row.category_id as string,
+      entry: (row.entry ?? "") as string,
+      score: row.score as number,
+    }));
+  }
+}
+
+export function createRepositories(supabase: SupabaseClient) {
+  return {
+    profiles: new ProfileRepository(supabase),
+    shares: new ProfileShareRepository(supabase),
+    categories: new CategoryRepository(supabase),
+    notes: new NoteRepository(supabase),
+    memoryItems: new MemoryItemRepository(supabase),
+    giftIdeas: new GiftIdeaRepository(supabase),
+    giftHistory: new GiftHistoryRepository(supabase),
+    occasions: new OccasionRepository(supabase),
+    reminders: new ReminderRepository(supabase),
+    budgets: new BudgetRepository(supabase),
+    quotas: new QuotaRepository(supabase),
+  };
+}
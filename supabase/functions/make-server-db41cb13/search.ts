@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import type { RelevantNote } from "../_shared/contracts.ts";
+import { mentionsAny } from "./attributes.ts";
+import type { EmbeddingProvider } from "./embeddings.ts";
+import { DEFAULT_RRF_K, fuseRankings, maxFusedScore } from "./ranking.ts";
+import { consumeEmbeddingQuota } from "./quotas.ts";
+import { reembedNotes, runInBackground } from "./reembed.ts";
+import {
+  createRepositories,
+  type MemoryItemHit,
+  type StoredNote,
+} from "./repository.ts";
+
+export interface NoteSearchOptions {
+  query: string;
+  profileId?: string;
+  categoryIds?: string[];
+  limit?: number;
+  minScore?: number;
+  weights?: { vector?: number; keyword?: number };
+  rrfK?: number;
+  // Dislikes and allergies per profile id; notes mentioning one of their
+  // profile's terms are dropped (see attributes.ts)
+  avoid?: Record<string, string[]>;
+  // Whose daily embedding allowance pays for re-embedding stale notes
+  // (default: userId, the notes' owner)
+  quotaUserId?: string;
+}
+
+// Hybrid search over a user's notes: vector similarity and full-text
+// matches are ranked in Postgres, then fused with RRF (see ranking.ts).
+// Notes embedded by another model can't take part in the vector side; they
+// are returned as `staleNotes` and re-embedded in the background, counted
+// against the embedding allowance like any other embedding.
+export async function searchNotes(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  userId: string,
+  {
+    query,
+    profileId,
+    categoryIds,
+    limit = 10,
+    minScore,
+    weights,
+    rrfK = DEFAULT_RRF_K,
+    avoid = {},
+    quotaUserId = userId,
+  }: NoteSearchOptions
+) {
+  const repo = createRepositories(supabase);
+
+  const vectorWeight = weights?.vector ?? 1;
+  const keywordWeight = weights?.keyword ?? 1;
+
+  // Each signal ranks a wider candidate pool than `limit` so notes that
+  // do well on both can surface after fusion
+  const candidates = Math.min(limit * 4, 200);
+  const filters = { profileId, categoryIds };
+
+  const [vectorMatches, keywordMatches, staleNotes] = await Promise.all([
+    // The query is only embedded when vectors count at all
+    vectorWeight > 0
+      ? provider.embed(query).then((embedding) =>
+          repo.memoryItems.match(userId, {
+            embedding,
+            modelId: provider.modelId,
+            limit: candidates,
+            minScore,
+            ...filters,
+          })
+        )
+      : [],
+    keywordWeight > 0
+      ? repo.memoryItems.searchText(userId, {
+          query,
+          limit: candidates,
+          ...filters,
+        })
+      : [],
+    repo.notes.listStale(userId, {
+      profileId,
+      modelId: provider.modelId,
+      dimensions: provider.dimensions,
+    }),
+  ]);
+
+  if (staleNotes.length > 0) {
+    runInBackground(reembedStale(supabase, provider, quotaUserId, staleNotes));
+  }
+
+  const fused = fuseRankings<MemoryItemHit>(
+    [
+      {
+        signal: "vector",
+        weight: vectorWeight,
+        items: vectorMatches.map((match) => ({
+          id: match.noteId,
+          score: match.similarity,
+          item: match,
+        })),
+      },
+      {
+        signal: "keyword",
+        weight: keywordWeight,
+        items: keywordMatches.map((match) => ({
+          id: match.noteId,
+          score: match.score,
+          item: match,
+        })),
+      },
+    ],
+    rrfK
+  );
+  const allowed = fused.filter(
+    ({ item }) => !mentionsAny(item.entry, avoid[item.profileId] ?? [])
+  );
+  const excludedNotes = fused.length - allowed.length;
+
+  const bestPossible = maxFusedScore([vectorWeight, keywordWeight], rrfK);
+
+  const relevantNotes: RelevantNote[] = allowed
+    .slice(0, limit)
+    .map(({ item, ...result }) => ({
+      noteId: item.noteId,
+      entry: item.entry,
+      profileId: item.profileId,
+      categoryId: item.categoryId,
+      scores: {
+        vector: result.signals.vector?.score ?? null,
+        keyword: result.signals.keyword?.score ?? null,
+        fused: result.fusedScore,
+      },
+      relevanceScore:
+        ((result.fusedScore / bestPossible) * 100).toFixed(2) + "%",
+      amazonSearchUrl: amazonSearchUrl(item.entry),
+    }));
+
+  return { relevantNotes, staleNotes, excludedNotes };
+}
+
+// Stale notes already being re-embedded by a search in this worker, so
+// concurrent searches don't embed (and pay for) the same text again
+const reembedding = new Set<string>();
+
+async function reembedStale(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  quotaUserId: string,
+  staleNotes: StoredNote[]
+) {
+  const notes = staleNotes.filter((note) => !reembedding.has(note.id));
+  if (notes.length === 0) return;
+  notes.forEach((note) => reembedding.add(note.id));
+  try {
+    // Out of allowance: the notes stay stale until /admin/reembed runs
+    const overQuota = await consumeEmbeddingQuota(
+      supabase,
+      quotaUserId,
+      notes.length
+    );
+    if (overQuota) return;
+    await reembedNotes(supabase, provider, notes);
+  } finally {
+    notes.forEach((note) => reembedding.delete(note.id));
+  }
+}
+
+export function amazonSearchUrl(text: string) {
+  return `https://www.amazon.com/s?k=${encodeURIComponent(text)}`;
+}
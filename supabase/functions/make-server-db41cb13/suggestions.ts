@@ -0,0 +1,126 @@
+import type {
+  Profile,
+  RelevantNote,
+  SuggestedGift,
+  SuggestGiftsRequest,
+} from "../_shared/contracts.ts";
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  withDefault,
+} from "../_shared/schema.ts";
+import { avoidedTerms, describeAttributes, mentionsAny } from "./attributes.ts";
+import type { LlmProvider } from "./llm.ts";
+import { amazonSearchUrl } from "./search.ts";
+
+const SYSTEM_PROMPT = `You are a thoughtful gift advisor. You suggest concrete, purchasable gifts for one person based only on the notes their friend or relative has written about them.
+Reply with a JSON object of the form {"ideas": [{"title": string, "description": string, "rationale": string, "estimatedPrice": number | null, "noteIds": string[]}]}.
+Every idea must cite the ids of the notes it is based on in "noteIds", using only ids listed in the prompt, and explain in "rationale" how those notes support it.
+Respect the budget when one is given, and the sizes when suggesting clothing. Do not suggest anything the notes or the listed dislikes say the person dislikes or already owns, or anything containing one of their allergies.`;
+
+// What the model must send back; anything else is dropped
+const llmResponseSchema = object({
+  ideas: array(
+    object({
+      title: string({ trim: true, min: 1, max: 200 }),
+      description: withDefault(string({ trim: true, max: 2000 }), ""),
+      rationale: withDefault(string({ trim: true, max: 2000 }), ""),
+      estimatedPrice: nullable(number({ min: 0 })),
+      noteIds: withDefault(array(string({ min: 1 })), []),
+    })
+  ),
+});
+
+// Notes are listed as "- [<note id>] <text>" so the model can cite them
+// (LocalStubLlmProvider relies on this format too)
+export function buildSuggestionPrompt(
+  profile: Profile,
+  notes: RelevantNote[],
+  request: SuggestGiftsRequest
+) {
+  const { query, occasion, budget, count = 5 } = request;
+  const currency = budget?.currency ?? "USD";
+
+  const budgetLine =
+    budget?.min !== undefined && budget?.max !== undefined
+      ? `${budget.min}-${budget.max} ${currency}`
+      : budget?.max !== undefined
+        ? `up to ${budget.max} ${currency}`
+        : budget?.min !== undefined
+          ? `at least ${budget.min} ${currency}`
+          : "not specified";
+
+  return [
+    `Person: ${profile.name}`,
+    `About them: ${profile.description || "(no description)"}`,
+    ...describeAttributes(profile.attributes),
+    `Occasion: ${occasion || "not specified"}`,
+    `Budget: ${budgetLine}`,
+    ...(query ? [`Request: ${query}`] : []),
+    `Ideas wanted: ${count}`,
+    "",
+    "Notes:",
+    ...(notes.length > 0
+      ? notes.map(
+          (note) => `- [${note.noteId}] ${note.entry.replace(/\s+/g, " ")}`
+        )
+      : ["(none)"]),
+  ].join("\n");
+}
+
+// Asks the model for ideas and keeps only well-formed ones. Citations of
+// notes that weren't in the prompt are removed, and ideas left citing
+// nothing are dropped, so every idea is grounded in the profile's notes.
+// Ideas mentioning one of the profile's dislikes or allergies are dropped
+// too, in case the model ignored them.
+export async function generateGiftSuggestions(
+  llm: LlmProvider,
+  profile: Profile,
+  notes: RelevantNote[],
+  request: SuggestGiftsRequest
+): Promise<Omit<SuggestedGift, "previouslyGiven">[]> {
+  const reply = await llm.generateJson({
+    system: SYSTEM_PROMPT,
+    prompt: buildSuggestionPrompt(profile, notes, request),
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(reply));
+  } catch {
+    throw new Error(`${llm.modelId} did not return valid JSON`);
+  }
+
+  const result = llmResponseSchema(parsed);
+  if (!result.success) {
+    throw new Error(
+      `${llm.modelId} returned an unexpected shape: ${result.issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join(", ")}`
+    );
+  }
+
+  const knownNoteIds = new Set(notes.map((note) => note.noteId));
+  const avoid = avoidedTerms(profile.attributes);
+
+  return result.data.ideas
+    .map((idea) => ({
+      ...idea,
+      noteIds: [...new Set(idea.noteIds)].filter((id) => knownNoteIds.has(id)),
+      searchUrl: amazonSearchUrl(idea.title),
+    }))
+    .filter((idea) => idea.noteIds.length > 0)
+    .filter((idea) => !mentionsAny(`${idea.title} ${idea.description}`, avoid))
+    .slice(0, request.count ?? 5);
+}
+
+// Some models wrap JSON in ```json fences despite being asked not to
+function stripCodeFence(text: string) {
+  return text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+}
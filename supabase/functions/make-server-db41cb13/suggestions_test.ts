@@ -0,0 +1,150 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import type { Profile, RelevantNote } from "../_shared/contracts.ts";
+import {
+  createLlmProvider,
+  type LlmProvider,
+  LocalStubLlmProvider,
+} from "./llm.ts";
+import { generateGiftSuggestions } from "./suggestions.ts";
+
+const profile: Profile = {
+  id: "profile-1",
+  name: "Sam",
+  description: "Loves the outdoors",
+  attributes: { allergies: ["peanut"] },
+};
+
+function note(noteId: string, entry: string): RelevantNote {
+  return {
+    noteId,
+    entry,
+    profileId: profile.id,
+    categoryId: "category-1",
+    scores: { vector: 0.9, keyword: null, fused: 0.01 },
+    relevanceScore: "90%",
+    amazonSearchUrl: "",
+  };
+}
+
+const notes = [note("n1", "Wants a new tent"), note("n2", "Drinks green tea")];
+
+// Replies with a fixed string and records the prompts it was given
+function fakeLlm(reply: string) {
+  const prompts: string[] = [];
+  const llm: LlmProvider = {
+    modelId: "test/fake",
+    generateJson: ({ prompt }) => {
+      prompts.push(prompt);
+      return Promise.resolve(reply);
+    },
+  };
+  return { llm, prompts };
+}
+
+function idea(title: string, noteIds: string[]) {
+  return { title, description: "", rationale: "", estimatedPrice: 20, noteIds };
+}
+
+Deno.test("the local stub suggests one idea per cited note", async () => {
+  const ideas = await generateGiftSuggestions(
+    new LocalStubLlmProvider(),
+    profile,
+    notes,
+    { count: 5 }
+  );
+
+  assertEquals(
+    ideas.map((idea) => [idea.title, idea.noteIds]),
+    [
+      ["Wants a new tent", ["n1"]],
+      ["Drinks green tea", ["n2"]],
+    ]
+  );
+});
+
+Deno.test("the prompt lists every note with its id", async () => {
+  const { llm, prompts } = fakeLlm(JSON.stringify({ ideas: [] }));
+  await generateGiftSuggestions(llm, profile, notes, { occasion: "Birthday" });
+
+  assertEquals(prompts.length, 1);
+  assertEquals(
+    prompts[0].split("\n").filter((line) => line.startsWith("- [")),
+    ["- [n1] Wants a new tent", "- [n2] Drinks green tea"]
+  );
+});
+
+Deno.test("ideas citing only unknown notes are dropped", async () => {
+  const { llm } = fakeLlm(
+    JSON.stringify({
+      ideas: [
+        idea("Camping stove", ["n1", "n1", "made-up"]),
+        idea("Invented idea", ["made-up"]),
+        idea("Uncited idea", []),
+      ],
+    })
+  );
+
+  const ideas = await generateGiftSuggestions(llm, profile, notes, {});
+  assertEquals(
+    ideas.map((idea) => [idea.title, idea.noteIds]),
+    [["Camping stove", ["n1"]]]
+  );
+});
+
+Deno.test("ideas mentioning an allergy are dropped", async () => {
+  const { llm } = fakeLlm(
+    JSON.stringify({
+      ideas: [idea("Peanut brittle", ["n2"]), idea("Tea sampler", ["n2"])],
+    })
+  );
+
+  const ideas = await generateGiftSuggestions(llm, profile, notes, {});
+  assertEquals(
+    ideas.map((idea) => idea.title),
+    ["Tea sampler"]
+  );
+});
+
+Deno.test("replies wrapped in a code fence are accepted", async () => {
+  const { llm } = fakeLlm(
+    "```json\n" + JSON.stringify({ ideas: [idea("Tent", ["n1"])] }) + "\n```"
+  );
+
+  const [suggestion] = await generateGiftSuggestions(llm, profile, notes, {});
+  assertEquals(suggestion.searchUrl, "https://www.amazon.com/s?k=Tent");
+});
+
+Deno.test("malformed replies are reported with the model id", async () => {
+  await assertRejects(
+    () => generateGiftSuggestions(fakeLlm("not json").llm, profile, notes, {}),
+    Error,
+    "test/fake did not return valid JSON"
+  );
+  await assertRejects(
+    () =>
+      generateGiftSuggestions(
+        fakeLlm(JSON.stringify({ ideas: [{ noteIds: ["n1"] }] })).llm,
+        profile,
+        notes,
+        {}
+      ),
+    Error,
+    "test/fake returned an unexpected shape"
+  );
+});
+
+Deno.test("createLlmProvider picks the provider from env", () => {
+  const env = (values: Record<string, string>) => (name: string) =>
+    values[name];
+
+  assertEquals(
+    createLlmProvider(env({ LLM_PROVIDER: "local" })).modelId,
+    "local/stub-v1"
+  );
+  assertEquals(
+    createLlmProvider(
+      env({ LLM_PROVIDER: "openai", OPENAI_API_KEY: "key", LLM_MODEL: "m" })
+    ).modelId,
+    "openai/m"
+  );
+});
@@ -0,0 +1,35 @@
+import { validator } from "npm:hono/validator";
+import { type Schema, uuid, type ValidationIssue } from "../_shared/schema.ts";
+import { invalidPathParams, invalidRequestBody } from "../_shared/contracts.ts";
+
+// Hono validator backed by a shared schema. Invalid bodies get a 400 listing
+// every bad field; handlers read the parsed value with c.req.valid("json").
+export const validateJson = <T>(schema: Schema<T>) =>
+  validator("json", (value, c) => {
+    const result = schema(value);
+    if (!result.success) {
+      return c.json(invalidRequestBody(result.issues), 400);
+    }
+    return result.data;
+  });
+
+// Issues for path params that aren't UUIDs; every :...Id param names a row
+// in a uuid column
+export function idParamIssues(params: Record<string, string>) {
+  const issues: ValidationIssue[] = [];
+  for (const [name, value] of Object.entries(params)) {
+    const result = uuid()(value, name);
+    if (!result.success) issues.push(...result.issues);
+  }
+  return issues;
+}
+
+// Route-level check of the route's own :...Id params. Middleware mounted
+// with a wildcard only sees the params of its own pattern, so routes with
+// ids below /profiles/:profileId add this themselves.
+export const validateIdParams = () =>
+  validator("param", (params, c) => {
+    const issues = idParamIssues(params);
+    if (issues.length) return c.json(invalidPathParams(issues), 400);
+    return params;
+  });
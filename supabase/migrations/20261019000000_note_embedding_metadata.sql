@@ -0,0 +1,9 @@
+-- Record which model produced each vector so a model switch can be detected
+-- and the affected rows re-embedded (see reembed.ts / POST /admin/reembed).
+alter table public.memory_items
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dim integer,
+  add column if not exists content_hash text;
+
+create index if not exists memory_items_embedding_model_idx
+  on public.memory_items (embedding_model);
@@ -0,0 +1,174 @@
+-- Dedicated tables for profiles, categories and notes, replacing the JSON
+-- blobs in kv_store_db41cb13 that were told apart by which fields they had.
+create extension if not exists vector;
+
+-- profiles already exists (it was mirrored for ChatGPT); make sure it has
+-- everything the app needs.
+create table if not exists public.profiles (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  avatar text not null default '',
+  description text not null default '',
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles
+  add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists profiles_user_id_idx on public.profiles (user_id);
+
+create table if not exists public.categories (
+  id uuid primary key,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists categories_profile_id_idx
+  on public.categories (profile_id);
+
+create table if not exists public.notes (
+  id uuid primary key,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  category_id uuid not null references public.categories (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entry text not null default '',
+  -- Dimension is whatever the embedding provider produced (see embedding_dim)
+  embedding vector,
+  embedding_model text,
+  embedding_dim integer,
+  content_hash text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists notes_profile_id_idx on public.notes (profile_id);
+create index if not exists notes_category_id_idx on public.notes (category_id);
+create index if not exists notes_user_id_idx on public.notes (user_id);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.categories enable row level security;
+alter table public.notes enable row level security;
+
+-- ---- One-time move of existing KV rows ----
+-- Keys look like:
+--   user:{uid}:profile:{pid}
+--   user:{uid}:profile:{pid}:category:{cid}
+--   user:{uid}:profile:{pid}:note:{nid}
+-- Rows with malformed ids or timestamps, rows whose user no longer exists,
+-- categories whose profile belongs to someone else and notes whose category
+-- no longer exists are left in KV untouched: every cast below is guarded so
+-- one bad row can't abort the migration. Timestamps were written by
+-- Date.toISOString(). A malformed embedding is dropped and the note gets
+-- re-embedded as stale.
+
+create temporary table kv_migrated (key text primary key) on commit drop;
+
+with moved as (
+  insert into public.profiles (id, user_id, name, avatar, description, created_at)
+  select
+    (kv.value ->> 'id')::uuid,
+    u.id,
+    kv.value ->> 'name',
+    coalesce(kv.value ->> 'avatar', ''),
+    coalesce(kv.value ->> 'description', ''),
+    coalesce((kv.value ->> 'createdAt')::timestamptz, now())
+  from public.kv_store_db41cb13 kv
+  join auth.users u on u.id::text = kv.value ->> 'userId'
+  where kv.key ~ '^user:[^:]+:profile:[0-9a-f-]{36}$'
+    and kv.value ->> 'id'
+      ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    and coalesce(kv.value ->> 'createdAt', '1970-01-01T00:00:00Z')
+      ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$'
+    and coalesce(kv.value ->> 'name', '') <> ''
+  on conflict (id) do nothing
+  returning user_id, id
+)
+insert into kv_migrated
+select 'user:' || user_id || ':profile:' || id from moved;
+
+-- Profiles already mirrored in Postgres by the old create route also count
+insert into kv_migrated
+select kv.key
+from public.kv_store_db41cb13 kv
+join public.profiles p
+  on kv.key = 'user:' || p.user_id || ':profile:' || p.id
+on conflict do nothing;
+
+with moved as (
+  insert into public.categories (id, profile_id, user_id, name, created_at)
+  select
+    (kv.value ->> 'id')::uuid,
+    p.id,
+    p.user_id,
+    coalesce(kv.value ->> 'name', 'Untitled'),
+    coalesce((kv.value ->> 'createdAt')::timestamptz, now())
+  from public.kv_store_db41cb13 kv
+  join public.profiles p
+    on p.id::text = kv.value ->> 'profileId'
+    and p.user_id::text = kv.value ->> 'userId'
+  where kv.key ~ '^user:[^:]+:profile:[^:]+:category:[0-9a-f-]{36}$'
+    and kv.value ->> 'id'
+      ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    and coalesce(kv.value ->> 'createdAt', '1970-01-01T00:00:00Z')
+      ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$'
+  on conflict (id) do nothing
+  returning user_id, profile_id, id
+)
+insert into kv_migrated
+select 'user:' || user_id || ':profile:' || profile_id || ':category:' || id
+from moved;
+
+with moved as (
+  insert into public.notes (
+    id, profile_id, category_id, user_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    (kv.value ->> 'id')::uuid,
+    c.profile_id,
+    c.id,
+    c.user_id,
+    coalesce(kv.value ->> 'entry', ''),
+    case
+      when jsonb_typeof(kv.value -> 'embedding') = 'array'
+        and jsonb_array_length(kv.value -> 'embedding') > 0
+        and not jsonb_path_exists(
+          kv.value, '$.embedding[*] ? (@.type() != "number")'
+        )
+        then (kv.value ->> 'embedding')::vector
+    end,
+    kv.value ->> 'embeddingModel',
+    case
+      when kv.value ->> 'embeddingDim' ~ '^\d{1,9}$'
+        then (kv.value ->> 'embeddingDim')::integer
+    end,
+    kv.value ->> 'contentHash',
+    coalesce((kv.value ->> 'createdAt')::timestamptz, now()),
+    coalesce((kv.value ->> 'updatedAt')::timestamptz, now())
+  from public.kv_store_db41cb13 kv
+  join public.categories c
+    on c.id::text = kv.value ->> 'categoryId'
+    and c.profile_id::text = kv.value ->> 'profileId'
+    and c.user_id::text = kv.value ->> 'userId'
+  where kv.key ~ '^user:[^:]+:profile:[^:]+:note:[0-9a-f-]{36}$'
+    and kv.value ->> 'id'
+      ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    and coalesce(kv.value ->> 'createdAt', '1970-01-01T00:00:00Z')
+      ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$'
+    and coalesce(kv.value ->> 'updatedAt', '1970-01-01T00:00:00Z')
+      ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$'
+  on conflict (id) do nothing
+  returning user_id, profile_id, id
+)
+insert into kv_migrated
+select 'user:' || user_id || ':profile:' || profile_id || ':note:' || id
+from moved;
+
+delete from public.kv_store_db41cb13 kv
+using kv_migrated m
+where kv.key = m.key;
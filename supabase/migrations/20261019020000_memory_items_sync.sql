@@ -0,0 +1,175 @@
+-- Keep memory_items (ChatGPT's RAG table) consistent with notes.
+--
+-- notes is now the only table the app writes. memory_items is derived from
+-- it inside the same transaction:
+--   * inserts/updates on notes are mirrored by the notes_sync_memory_item
+--     trigger,
+--   * deletes cascade through foreign keys,
+--   * save_notes() writes a whole /submit batch atomically,
+--   * reconcile_memory_items() reports and repairs any drift left over
+--     from before this migration.
+
+-- Existing orphan rows would make a plain FK fail, so the constraints are
+-- added NOT VALID (enforced for new rows only). Run
+-- reconcile_memory_items(user, true) for affected users, then VALIDATE.
+alter table public.memory_items
+  drop constraint if exists memory_items_note_id_fkey,
+  add constraint memory_items_note_id_fkey
+    foreign key (id) references public.notes (id) on delete cascade not valid;
+
+alter table public.memory_items
+  drop constraint if exists memory_items_profile_id_fkey,
+  add constraint memory_items_profile_id_fkey
+    foreign key (profile_id) references public.profiles (id) on delete cascade not valid;
+
+-- Upserts the memory_items rows for the given notes from their current state
+create or replace function public.sync_memory_items(p_note_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.memory_items (
+    id, user_id, profile_id, profile_name, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    n.id, n.user_id, n.profile_id, p.name, n.entry,
+    n.embedding, n.embedding_model, n.embedding_dim, n.content_hash,
+    n.created_at, n.updated_at
+  from public.notes n
+  join public.profiles p on p.id = n.profile_id
+  where n.id = any (p_note_ids)
+  on conflict (id) do update set
+    user_id = excluded.user_id,
+    profile_id = excluded.profile_id,
+    profile_name = excluded.profile_name,
+    entry = excluded.entry,
+    embedding = excluded.embedding,
+    embedding_model = excluded.embedding_model,
+    embedding_dim = excluded.embedding_dim,
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at;
+$$;
+
+create or replace function public.notes_sync_memory_item()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.sync_memory_items(array[new.id]);
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_sync_memory_item on public.notes;
+create trigger notes_sync_memory_item
+  after insert or update on public.notes
+  for each row execute function public.notes_sync_memory_item();
+
+-- Saves one /submit batch (categories first, then notes) in a single
+-- transaction. Both arguments are JSON arrays of snake_case rows.
+create or replace function public.save_notes(
+  p_categories jsonb,
+  p_notes jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.categories (id, profile_id, user_id, name, created_at, updated_at)
+  select id, profile_id, user_id, name, created_at, now()
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, profile_id uuid, user_id uuid, name text, created_at timestamptz
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    updated_at = excluded.updated_at;
+
+  insert into public.notes (
+    id, profile_id, category_id, user_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    id, profile_id, category_id, user_id, entry,
+    embedding::vector, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (
+    id uuid, profile_id uuid, category_id uuid, user_id uuid, entry text,
+    embedding text, embedding_model text, embedding_dim integer,
+    content_hash text, created_at timestamptz, updated_at timestamptz
+  )
+  on conflict (id) do update set
+    profile_id = excluded.profile_id,
+    category_id = excluded.category_id,
+    entry = excluded.entry,
+    embedding = excluded.embedding,
+    embedding_model = excluded.embedding_model,
+    embedding_dim = excluded.embedding_dim,
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at;
+end;
+$$;
+
+-- Lists every note whose memory_items row is missing, out of date or left
+-- behind after the note was deleted. With p_repair the drift is fixed in
+-- the same call; the returned rows describe the state before the repair.
+create or replace function public.reconcile_memory_items(
+  p_user_id uuid,
+  p_repair boolean default false
+)
+returns table (note_id uuid, issue text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  create temporary table drift on commit drop as
+  select n.id as note_id, 'missing'::text as issue
+  from public.notes n
+  left join public.memory_items m on m.id = n.id
+  where n.user_id = p_user_id and m.id is null
+  union all
+  select n.id, 'mismatched'
+  from public.notes n
+  join public.memory_items m on m.id = n.id
+  join public.profiles p on p.id = n.profile_id
+  where n.user_id = p_user_id
+    and (
+      m.user_id is distinct from n.user_id
+      or m.profile_id is distinct from n.profile_id
+      or m.profile_name is distinct from p.name
+      or m.entry is distinct from n.entry
+      or m.content_hash is distinct from n.content_hash
+      or m.embedding_model is distinct from n.embedding_model
+    )
+  union all
+  select m.id, 'orphaned'
+  from public.memory_items m
+  left join public.notes n on n.id = m.id
+  where m.user_id = p_user_id and n.id is null;
+
+  if p_repair then
+    delete from public.memory_items m
+    using drift d
+    where d.issue = 'orphaned' and m.id = d.note_id;
+
+    perform public.sync_memory_items(
+      array(select d.note_id from drift d where d.issue <> 'orphaned')
+    );
+  end if;
+
+  return query select d.note_id, d.issue from drift d;
+end;
+$$;
+
+revoke execute on function public.save_notes(jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.sync_memory_items(uuid[]) from public, anon, authenticated;
+revoke execute on function public.reconcile_memory_items(uuid, boolean) from public, anon, authenticated;
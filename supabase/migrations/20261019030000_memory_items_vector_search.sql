@@ -0,0 +1,134 @@
+-- Nearest-neighbour search over memory_items in SQL instead of scoring every
+-- note in the edge function (see match_memory_items / POST /search-gifts).
+--
+-- Requires pgvector >= 0.8.0: the HNSW index is shared by all users, and
+-- match_memory_items relies on iterative index scans to keep finding
+-- neighbours until enough of them pass its per-user filters.
+do $$
+begin
+  if (
+    select string_to_array(extversion, '.')::int[]
+    from pg_extension
+    where extname = 'vector'
+  ) < array[0, 8] then
+    raise exception 'memory_items vector search requires pgvector >= 0.8.0';
+  end if;
+end;
+$$;
+
+-- Category filter support: memory_items now carries the note's category
+alter table public.memory_items
+  add column if not exists category_id uuid;
+
+update public.memory_items m
+set category_id = n.category_id
+from public.notes n
+where n.id = m.id and m.category_id is distinct from n.category_id;
+
+create or replace function public.sync_memory_items(p_note_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.memory_items (
+    id, user_id, profile_id, profile_name, category_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    n.id, n.user_id, n.profile_id, p.name, n.category_id, n.entry,
+    n.embedding, n.embedding_model, n.embedding_dim, n.content_hash,
+    n.created_at, n.updated_at
+  from public.notes n
+  join public.profiles p on p.id = n.profile_id
+  where n.id = any (p_note_ids)
+  on conflict (id) do update set
+    user_id = excluded.user_id,
+    profile_id = excluded.profile_id,
+    profile_name = excluded.profile_name,
+    category_id = excluded.category_id,
+    entry = excluded.entry,
+    embedding = excluded.embedding,
+    embedding_model = excluded.embedding_model,
+    embedding_dim = excluded.embedding_dim,
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at;
+$$;
+
+create index if not exists memory_items_user_profile_idx
+  on public.memory_items (user_id, profile_id);
+
+-- HNSW needs a fixed dimension, so the index covers vectors of the default
+-- size (EMBEDDING_DIMENSIONS=768). Other sizes still work via an exact scan.
+create index if not exists memory_items_embedding_hnsw_768_idx
+  on public.memory_items
+  using hnsw ((embedding::vector(768)) vector_cosine_ops)
+  where embedding_dim = 768;
+
+-- Top p_match_count items for one user by cosine similarity to the query.
+-- Only vectors from p_embedding_model with the query's dimension are
+-- compared; everything else is stale and left to the re-embed job.
+create or replace function public.match_memory_items(
+  p_user_id uuid,
+  p_query_embedding vector,
+  p_embedding_model text,
+  p_match_count integer default 10,
+  p_min_score double precision default 0,
+  p_profile_id uuid default null,
+  p_category_ids uuid[] default null
+)
+returns table (
+  id uuid,
+  profile_id uuid,
+  category_id uuid,
+  entry text,
+  similarity double precision
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- The index holds every user's notes and is searched before the
+  -- user/profile/category filters apply. An iterative scan keeps pulling
+  -- neighbours (in exact distance order) until p_match_count rows pass them,
+  -- up to max_scan_tuples visited; past that the query may return fewer.
+  perform set_config('hnsw.iterative_scan', 'strict_order', true);
+  perform set_config('hnsw.max_scan_tuples', '50000', true);
+  perform set_config(
+    'hnsw.ef_search', greatest(40, p_match_count * 4)::text, true
+  );
+
+  if vector_dims(p_query_embedding) = 768 then
+    return query
+    select m.id, m.profile_id, m.category_id, m.entry,
+      1 - (m.embedding::vector(768) <=> p_query_embedding::vector(768))
+    from public.memory_items m
+    where m.embedding_dim = 768
+      and m.user_id = p_user_id
+      and m.embedding_model = p_embedding_model
+      and (p_profile_id is null or m.profile_id = p_profile_id)
+      and (p_category_ids is null or m.category_id = any (p_category_ids))
+      and 1 - (m.embedding::vector(768) <=> p_query_embedding::vector(768))
+        >= p_min_score
+    order by m.embedding::vector(768) <=> p_query_embedding::vector(768)
+    limit p_match_count;
+  else
+    return query
+    select m.id, m.profile_id, m.category_id, m.entry,
+      1 - (m.embedding <=> p_query_embedding)
+    from public.memory_items m
+    where m.embedding_dim = vector_dims(p_query_embedding)
+      and m.user_id = p_user_id
+      and m.embedding_model = p_embedding_model
+      and (p_profile_id is null or m.profile_id = p_profile_id)
+      and (p_category_ids is null or m.category_id = any (p_category_ids))
+      and 1 - (m.embedding <=> p_query_embedding) >= p_min_score
+    order by m.embedding <=> p_query_embedding
+    limit p_match_count;
+  end if;
+end;
+$$;
+
+revoke execute on function public.match_memory_items(uuid, vector, text, integer, double precision, uuid, uuid[]) from public, anon, authenticated;
@@ -0,0 +1,61 @@
+-- Keyword side of the hybrid gift search: full-text ranking over
+-- memory_items.entry, fused with the vector ranking in ranking.ts.
+
+-- 'simple' keeps words as written (no stemming or stop words), so brand
+-- names and sizes like "Technic" or "M" stay matchable
+alter table public.memory_items
+  add column if not exists entry_tsv tsvector
+    generated always as (to_tsvector('simple', coalesce(entry, ''))) stored;
+
+create index if not exists memory_items_entry_tsv_idx
+  on public.memory_items using gin (entry_tsv);
+
+-- Top p_match_count items for one user whose entry contains any of the
+-- query's words, best ts_rank_cd first. Notes matching more (and closer)
+-- query words rank higher.
+create or replace function public.search_memory_items_text(
+  p_user_id uuid,
+  p_query text,
+  p_match_count integer default 10,
+  p_profile_id uuid default null,
+  p_category_ids uuid[] default null
+)
+returns table (
+  id uuid,
+  profile_id uuid,
+  category_id uuid,
+  entry text,
+  score double precision
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_query tsquery;
+begin
+  -- OR the query's words together; websearch_to_tsquery would AND them and
+  -- miss notes that only mention "Lego"
+  select to_tsquery('simple', string_agg(quote_literal(word), ' | '))
+  into v_query
+  from unnest(tsvector_to_array(to_tsvector('simple', p_query))) as word;
+
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  select m.id, m.profile_id, m.category_id, m.entry,
+    ts_rank_cd(m.entry_tsv, v_query)::double precision
+  from public.memory_items m
+  where m.user_id = p_user_id
+    and m.entry_tsv @@ v_query
+    and (p_profile_id is null or m.profile_id = p_profile_id)
+    and (p_category_ids is null or m.category_id = any (p_category_ids))
+  order by 5 desc, m.id
+  limit p_match_count;
+end;
+$$;
+
+revoke execute on function public.search_memory_items_text(uuid, text, integer, uuid, uuid[]) from public, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Gift ideas per profile, tracked from first idea to the gift being given
+-- (see GiftIdeaRepository / /profiles/:profileId/gifts).
+create table if not exists public.gift_ideas (
+  id uuid primary key,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  url text,
+  price numeric(12, 2) check (price >= 0),
+  currency char(3) not null default 'USD',
+  status text not null default 'idea'
+    check (status in ('idea', 'planned', 'purchased', 'given', 'rejected')),
+  occasion text,
+  -- Notes that inspired the idea; ids of deleted notes are removed below
+  note_ids uuid[] not null default '{}',
+  status_changed_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists gift_ideas_profile_id_idx
+  on public.gift_ideas (profile_id);
+create index if not exists gift_ideas_user_id_idx
+  on public.gift_ideas (user_id);
+create index if not exists gift_ideas_note_ids_idx
+  on public.gift_ideas using gin (note_ids);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.gift_ideas enable row level security;
+
+create or replace function public.notes_unlink_gift_ideas()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.gift_ideas
+  set note_ids = array_remove(note_ids, old.id)
+  where note_ids @> array[old.id];
+  return old;
+end;
+$$;
+
+drop trigger if exists notes_unlink_gift_ideas on public.notes;
+create trigger notes_unlink_gift_ideas
+  after delete on public.notes
+  for each row execute function public.notes_unlink_gift_ideas();
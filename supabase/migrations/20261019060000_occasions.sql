@@ -0,0 +1,25 @@
+-- Birthdays, anniversaries and other important dates per profile (see
+-- OccasionRepository / /profiles/:profileId/occasions). The next occurrence
+-- is computed in code (_shared/occasions.ts), not stored.
+create table if not exists public.occasions (
+  id uuid primary key,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null default 'other'
+    check (type in ('birthday', 'anniversary', 'holiday', 'other')),
+  -- For yearly occasions the year is the first one (e.g. year of birth)
+  date date not null,
+  recurrence text not null default 'yearly'
+    check (recurrence in ('yearly', 'once')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists occasions_profile_id_idx
+  on public.occasions (profile_id);
+create index if not exists occasions_user_id_idx
+  on public.occasions (user_id);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.occasions enable row level security;
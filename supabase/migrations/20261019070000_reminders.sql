@@ -0,0 +1,36 @@
+-- Reminders generated ahead of each occasion by POST /cron/reminders (see
+-- reminders.ts) and read by the frontend's notification center.
+create table if not exists public.reminders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  occasion_id uuid not null references public.occasions (id) on delete cascade,
+  -- The occurrence this reminder is for, and how far ahead it fires
+  occasion_date date not null,
+  days_before integer not null check (days_before >= 0),
+  remind_on date not null,
+  title text not null,
+  message text not null default '',
+  -- Set once a toast has been shown for it / once the user has read it
+  delivered_at timestamptz,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  -- Re-running the job for the same day must not create duplicates
+  unique (occasion_id, occasion_date, days_before)
+);
+
+create index if not exists reminders_user_remind_on_idx
+  on public.reminders (user_id, remind_on desc);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.reminders enable row level security;
+
+-- To run the job daily on a hosted project, schedule it with pg_cron and
+-- pg_net (fill in the project ref and CRON_SECRET):
+--
+--   select cron.schedule('giftnote-reminders', '0 7 * * *', $$
+--     select net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/make-server-db41cb13/cron/reminders',
+--       headers := '{"Content-Type": "application/json", "X-Cron-Secret": "<CRON_SECRET>"}'::jsonb
+--     );
+--   $$);
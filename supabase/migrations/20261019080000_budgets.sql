@@ -0,0 +1,56 @@
+-- Budgets per profile and year, optionally narrowed to one occasion, and the
+-- spend they are compared against (see BudgetRepository / budgets.ts).
+
+-- Gift ideas can count toward an occasion's budget, and remember when they
+-- were bought so spend lands in the right year even after being given.
+alter table public.gift_ideas
+  add column if not exists occasion_id uuid
+    references public.occasions (id) on delete set null,
+  add column if not exists purchased_at timestamptz;
+
+update public.gift_ideas
+set purchased_at = status_changed_at
+where status in ('purchased', 'given') and purchased_at is null;
+
+create index if not exists gift_ideas_occasion_id_idx
+  on public.gift_ideas (occasion_id);
+
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- null: the profile's budget for the whole year
+  occasion_id uuid references public.occasions (id) on delete cascade,
+  year integer not null check (year between 2000 and 2100),
+  amount numeric(12, 2) not null check (amount >= 0),
+  currency char(3) not null default 'USD',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- One yearly budget per profile and one per occasion and year; lets
+  -- setting a budget be a plain upsert
+  constraint budgets_scope_key
+    unique nulls not distinct (profile_id, year, occasion_id)
+);
+
+create index if not exists budgets_user_id_year_idx
+  on public.budgets (user_id, year);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.budgets enable row level security;
+
+-- Spend records: every purchased (or since given) gift idea with a price.
+create or replace view public.gift_spend
+with (security_invoker = on) as
+select
+  id as gift_id,
+  user_id,
+  profile_id,
+  occasion_id,
+  title,
+  price as amount,
+  currency,
+  purchased_at
+from public.gift_ideas
+where status in ('purchased', 'given')
+  and price is not null
+  and purchased_at is not null;
@@ -0,0 +1,79 @@
+-- Gifts that were actually given, per profile (see GiftHistoryRepository /
+-- history.ts). A row is written when a gift idea is marked "given" and
+-- outlives the idea, so deleting an idea doesn't forget what was given.
+create table if not exists public.gift_history (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  gift_idea_id uuid unique
+    references public.gift_ideas (id) on delete set null,
+  title text not null,
+  price numeric(12, 2),
+  currency char(3) not null default 'USD',
+  occasion text,
+  given_on date not null,
+  -- Embedding of the title, used to warn about giving the same thing twice.
+  -- Null until embedded; rows from another model are re-embedded lazily.
+  embedding vector,
+  embedding_model text,
+  embedding_dim integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists gift_history_profile_id_idx
+  on public.gift_history (profile_id, given_on desc);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.gift_history enable row level security;
+
+-- Earlier gifts to the profile similar to `p_query_embedding`. Histories are
+-- small (a few gifts a year per person), so this is an exact scan.
+create or replace function public.match_gift_history(
+  p_user_id uuid,
+  p_profile_id uuid,
+  p_query_embedding vector,
+  p_embedding_model text,
+  p_match_count integer default 3,
+  p_min_score double precision default 0
+)
+returns table (
+  id uuid,
+  profile_id uuid,
+  gift_idea_id uuid,
+  title text,
+  price numeric,
+  currency char(3),
+  occasion text,
+  given_on date,
+  created_at timestamptz,
+  similarity double precision
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select h.id, h.profile_id, h.gift_idea_id, h.title, h.price, h.currency,
+    h.occasion, h.given_on, h.created_at,
+    1 - (h.embedding <=> p_query_embedding)
+  from public.gift_history h
+  where h.user_id = p_user_id
+    and h.profile_id = p_profile_id
+    and h.embedding_model = p_embedding_model
+    and h.embedding_dim = vector_dims(p_query_embedding)
+    and 1 - (h.embedding <=> p_query_embedding) >= p_min_score
+  order by h.embedding <=> p_query_embedding
+  limit p_match_count;
+$$;
+
+-- Backfill: ideas already marked given (embedded on first duplicate check)
+insert into public.gift_history (
+  profile_id, user_id, gift_idea_id, title, price, currency, occasion,
+  given_on
+)
+select
+  g.profile_id, g.user_id, g.id, g.title, g.price, g.currency, g.occasion,
+  g.status_changed_at::date
+from public.gift_ideas g
+where g.status = 'given'
+on conflict (gift_idea_id) do nothing;
@@ -0,0 +1,68 @@
+-- Plans and per-user quotas (see quotas.ts / GET /me/limits). A user without
+-- a user_limits row is on the "free" plan; per-user columns override the
+-- plan's value. A null limit means unlimited.
+create table if not exists public.plans (
+  id text primary key,
+  name text not null,
+  max_profiles integer check (max_profiles >= 0),
+  max_notes_per_profile integer check (max_notes_per_profile >= 0),
+  max_embeddings_per_day integer check (max_embeddings_per_day >= 0)
+);
+
+insert into public.plans (
+  id, name, max_profiles, max_notes_per_profile, max_embeddings_per_day
+)
+values
+  ('free', 'Free', 5, 200, 500),
+  ('plus', 'Plus', 25, 1000, 5000)
+on conflict (id) do nothing;
+
+create table if not exists public.user_limits (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  plan_id text not null default 'free' references public.plans (id),
+  max_profiles integer check (max_profiles >= 0),
+  max_notes_per_profile integer check (max_notes_per_profile >= 0),
+  max_embeddings_per_day integer check (max_embeddings_per_day >= 0),
+  updated_at timestamptz not null default now()
+);
+
+-- Texts embedded per user and UTC day
+create table if not exists public.embedding_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  count integer not null default 0,
+  primary key (user_id, day)
+);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.plans enable row level security;
+alter table public.user_limits enable row level security;
+alter table public.embedding_usage enable row level security;
+
+-- Adds `p_count` to today's usage unless that would go over `p_limit` (null:
+-- no limit). Returns false, leaving usage unchanged, when over the limit.
+-- A single statement, so concurrent requests can't both squeeze under it.
+create or replace function public.consume_embedding_quota(
+  p_user_id uuid,
+  p_count integer,
+  p_limit integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_limit is not null and p_count > p_limit then
+    return false;
+  end if;
+
+  insert into public.embedding_usage as u (user_id, day, count)
+  values (p_user_id, (now() at time zone 'utc')::date, p_count)
+  on conflict (user_id, day) do update
+    set count = u.count + excluded.count
+    where p_limit is null or u.count + excluded.count <= p_limit;
+
+  return found;
+end;
+$$;
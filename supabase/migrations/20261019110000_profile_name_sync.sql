@@ -0,0 +1,24 @@
+-- Profiles can now be renamed (PATCH /profiles/:profileId). memory_items
+-- keeps a copy of the name for ChatGPT, so carry renames over to it in the
+-- same transaction.
+create or replace function public.profiles_sync_memory_items()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.memory_items
+  set profile_name = new.name
+  where profile_id = new.id
+    and profile_name is distinct from new.name;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_sync_memory_items on public.profiles;
+create trigger profiles_sync_memory_items
+  after update of name on public.profiles
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.profiles_sync_memory_items();
@@ -0,0 +1,22 @@
+-- Uploaded profile photos (see avatars.ts). The browser crops and resizes
+-- the image, then uploads a full-size copy and a thumbnail straight to
+-- Storage with signed upload URLs handed out by the edge function. Objects
+-- live under <user_id>/<profile_id>/<upload_id>/; paths are unguessable, so
+-- the bucket is public-read like a typical avatar bucket.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'profile-avatars',
+  'profile-avatars',
+  true,
+  1048576,
+  array['image/webp', 'image/jpeg', 'image/png']
+)
+on conflict (id) do nothing;
+
+-- profiles.avatar keeps holding the URL that is displayed, so an uploaded
+-- photo and a pasted link look the same to clients. avatar_path is the
+-- Storage folder when the avatar was uploaded (null for links), so it can be
+-- cleaned up when replaced.
+alter table public.profiles
+  add column if not exists avatar_thumb text not null default '',
+  add column if not exists avatar_path text;
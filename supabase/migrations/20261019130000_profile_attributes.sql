@@ -0,0 +1,11 @@
+-- Structured profile attributes (relationship, birthday, age range, sizes,
+-- favorite colors, likes, dislikes, allergies); see ProfileAttributes in
+-- contracts.ts. Stored as one JSON object, validated by the edge function
+-- and replaced as a whole on update.
+alter table public.profiles
+  add column if not exists attributes jsonb not null default '{}'::jsonb;
+
+alter table public.profiles
+  drop constraint if exists profiles_attributes_object,
+  add constraint profiles_attributes_object
+    check (jsonb_typeof(attributes) = 'object');
@@ -0,0 +1,105 @@
+-- Categories can be renamed, reordered and deleted one at a time
+-- (PATCH/DELETE /profiles/:profileId/categories/:categoryId and
+-- PUT /profiles/:profileId/categories/order). Tabs are shown by position;
+-- existing categories keep their creation order.
+alter table public.categories
+  add column if not exists position integer not null default 0;
+
+update public.categories c
+set position = ordered.position
+from (
+  select id, row_number() over (
+    partition by profile_id order by created_at, id
+  ) - 1 as position
+  from public.categories
+) ordered
+where ordered.id = c.id;
+
+create index if not exists categories_profile_position_idx
+  on public.categories (profile_id, position);
+
+-- Same as before, plus each category's position. A category sent without
+-- one keeps its position, or goes last when it is new.
+create or replace function public.save_notes(
+  p_categories jsonb,
+  p_notes jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.categories (
+    id, profile_id, user_id, name, position, created_at, updated_at
+  )
+  select
+    c.id, c.profile_id, c.user_id, c.name,
+    coalesce(
+      c.position,
+      (select count(*) from public.categories x where x.profile_id = c.profile_id)
+    ),
+    c.created_at, now()
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, profile_id uuid, user_id uuid, name text, position integer,
+    created_at timestamptz
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    updated_at = excluded.updated_at;
+
+  update public.categories cat
+  set position = c.position
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, position integer
+  )
+  where cat.id = c.id
+    and c.position is not null;
+
+  insert into public.notes (
+    id, profile_id, category_id, user_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    id, profile_id, category_id, user_id, entry,
+    embedding::vector, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (
+    id uuid, profile_id uuid, category_id uuid, user_id uuid, entry text,
+    embedding text, embedding_model text, embedding_dim integer,
+    content_hash text, created_at timestamptz, updated_at timestamptz
+  )
+  on conflict (id) do update set
+    profile_id = excluded.profile_id,
+    category_id = excluded.category_id,
+    entry = excluded.entry,
+    embedding = excluded.embedding,
+    embedding_model = excluded.embedding_model,
+    embedding_dim = excluded.embedding_dim,
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at;
+end;
+$$;
+
+-- Gives the listed categories positions 0, 1, 2, ... in that order, in one
+-- statement. Ids that aren't categories of the profile are skipped (the
+-- client may list categories it hasn't saved yet).
+create or replace function public.reorder_categories(
+  p_user_id uuid,
+  p_profile_id uuid,
+  p_category_ids uuid[]
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.categories c
+  set position = o.ordinality - 1,
+      updated_at = now()
+  from unnest(p_category_ids) with ordinality as o (id, ordinality)
+  where c.id = o.id
+    and c.user_id = p_user_id
+    and c.profile_id = p_profile_id;
+$$;
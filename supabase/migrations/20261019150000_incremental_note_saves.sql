@@ -0,0 +1,88 @@
+-- /submit no longer re-embeds notes whose text hasn't changed (same
+-- content_hash, same model). Such notes are sent without a vector, and an
+-- update without one keeps the vector already stored. Otherwise unchanged
+-- from 20261019140000_category_positions.sql.
+create or replace function public.save_notes(
+  p_categories jsonb,
+  p_notes jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.categories (
+    id, profile_id, user_id, name, position, created_at, updated_at
+  )
+  select
+    c.id, c.profile_id, c.user_id, c.name,
+    -- New categories sent without a position go last, in request order;
+    -- the count alone is the same for every row of the statement
+    coalesce(
+      c.position,
+      (select count(*) from public.categories x where x.profile_id = c.profile_id)
+        + row_number() over (partition by c.profile_id) - 1
+    ),
+    c.created_at, now()
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, profile_id uuid, user_id uuid, name text, position integer,
+    created_at timestamptz
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    updated_at = excluded.updated_at;
+
+  update public.categories cat
+  set position = c.position
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, position integer
+  )
+  where cat.id = c.id
+    and c.position is not null;
+
+  insert into public.notes (
+    id, profile_id, category_id, user_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    id, profile_id, category_id, user_id, entry,
+    embedding::vector, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (
+    id uuid, profile_id uuid, category_id uuid, user_id uuid, entry text,
+    embedding text, embedding_model text, embedding_dim integer,
+    content_hash text, created_at timestamptz, updated_at timestamptz
+  )
+  on conflict (id) do update set
+    profile_id = excluded.profile_id,
+    category_id = excluded.category_id,
+    entry = excluded.entry,
+    embedding = coalesce(excluded.embedding, public.notes.embedding),
+    embedding_model = coalesce(excluded.embedding_model, public.notes.embedding_model),
+    embedding_dim = coalesce(excluded.embedding_dim, public.notes.embedding_dim),
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at;
+end;
+$$;
+
+-- Gives back embeddings counted by consume_embedding_quota() for a /submit
+-- that then failed (provider error, refused save), so retries aren't
+-- charged twice. Never takes today's usage below zero.
+create or replace function public.refund_embedding_quota(
+  p_user_id uuid,
+  p_count integer
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.embedding_usage
+  set count = greatest(count - p_count, 0)
+  where user_id = p_user_id
+    and day = (now() at time zone 'utc')::date;
+$$;
+
+revoke execute on function public.refund_embedding_quota(uuid, integer) from public, anon, authenticated;
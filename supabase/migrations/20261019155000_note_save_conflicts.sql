@@ -0,0 +1,106 @@
+-- /submit refuses notes that were saved from another device since the
+-- client loaded them. The check used to run in the edge function before the
+-- write, so two devices saving at once could both pass it; it now runs
+-- inside save_notes(), against rows locked for the rest of the transaction.
+-- Each note may carry base_updated_at (the updated_at the client started
+-- from). If any stored note has moved on, nothing is written and the ids of
+-- those notes are returned; otherwise the batch is saved as before and no
+-- rows are returned.
+-- Ids are client-generated, and with sharing an editor of one profile could
+-- send the id of a category or note in another of the owner's profiles. An
+-- existing row is only updated when it already belongs to the profile being
+-- saved; /submit rejects such ids up front, the upserts below skip them.
+drop function if exists public.save_notes(jsonb, jsonb);
+
+create function public.save_notes(
+  p_categories jsonb,
+  p_notes jsonb
+)
+returns table (note_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Lock the stored notes first (in id order, so concurrent batches can't
+  -- deadlock); a second save of the same notes waits here and then sees the
+  -- first one's updated_at
+  perform 1
+  from public.notes s
+  where s.id in (
+    select n.id
+    from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (id uuid)
+  )
+  order by s.id
+  for update;
+
+  return query
+  select s.id
+  from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (
+    id uuid, base_updated_at timestamptz
+  )
+  join public.notes s on s.id = n.id
+  where n.base_updated_at is not null
+    and date_trunc('milliseconds', s.updated_at)
+      <> date_trunc('milliseconds', n.base_updated_at)
+  order by s.id;
+  if found then
+    return;
+  end if;
+
+  insert into public.categories (
+    id, profile_id, user_id, name, position, created_at, updated_at
+  )
+  select
+    c.id, c.profile_id, c.user_id, c.name,
+    coalesce(
+      c.position,
+      (select count(*) from public.categories x where x.profile_id = c.profile_id)
+        + row_number() over (partition by c.profile_id) - 1
+    ),
+    c.created_at, now()
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, profile_id uuid, user_id uuid, name text, position integer,
+    created_at timestamptz
+  )
+  on conflict (id) do update set
+    name = excluded.name,
+    updated_at = excluded.updated_at
+  where public.categories.profile_id = excluded.profile_id;
+
+  update public.categories cat
+  set position = c.position
+  from jsonb_to_recordset(coalesce(p_categories, '[]'::jsonb)) as c (
+    id uuid, profile_id uuid, position integer
+  )
+  where cat.id = c.id
+    and cat.profile_id = c.profile_id
+    and c.position is not null;
+
+  insert into public.notes (
+    id, profile_id, category_id, user_id, entry,
+    embedding, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  )
+  select
+    id, profile_id, category_id, user_id, entry,
+    embedding::vector, embedding_model, embedding_dim, content_hash,
+    created_at, updated_at
+  from jsonb_to_recordset(coalesce(p_notes, '[]'::jsonb)) as n (
+    id uuid, profile_id uuid, category_id uuid, user_id uuid, entry text,
+    embedding text, embedding_model text, embedding_dim integer,
+    content_hash text, created_at timestamptz, updated_at timestamptz
+  )
+  on conflict (id) do update set
+    category_id = excluded.category_id,
+    entry = excluded.entry,
+    embedding = coalesce(excluded.embedding, public.notes.embedding),
+    embedding_model = coalesce(excluded.embedding_model, public.notes.embedding_model),
+    embedding_dim = coalesce(excluded.embedding_dim, public.notes.embedding_dim),
+    content_hash = excluded.content_hash,
+    updated_at = excluded.updated_at
+  where public.notes.profile_id = excluded.profile_id;
+end;
+$$;
+
+revoke execute on function public.save_notes(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,219 @@
+-- Live updates for open views. Row changes are broadcast from triggers on
+-- private Realtime channels, so clients still never read the tables
+-- directly (and never receive note vectors):
+--   user:{user_id}        profile inserts, updates and deletes
+--   profile:{profile_id}  category and note changes, plus presence of the
+--                         sessions that have the profile open
+-- Each message's event is the entity ("profile", "category", "note") and its
+-- payload { op, record } uses the API's camelCase shapes; for deletes the
+-- record only has the ids.
+
+-- Whether the signed-in user may join a topic. Used by the policies below.
+create or replace function public.realtime_topic_allowed(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_topic = 'user:' || auth.uid()::text
+    or exists (
+      select 1
+      from public.profiles p
+      where p.user_id = auth.uid()
+        and p.id = (
+          case
+            when p_topic ~ '^profile:[0-9a-f-]{36}$'
+            then substr(p_topic, length('profile:') + 1)::uuid
+          end
+        )
+    );
+$$;
+
+drop policy if exists "Receive own broadcasts" on realtime.messages;
+create policy "Receive own broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (public.realtime_topic_allowed(realtime.topic()));
+
+-- Clients only send presence; broadcasts come from the triggers
+drop policy if exists "Track presence on own profiles" on realtime.messages;
+create policy "Track presence on own profiles"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'presence'
+    and public.realtime_topic_allowed(realtime.topic())
+  );
+
+create or replace function public.broadcast_profile_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.profiles;
+begin
+  if tg_op = 'DELETE' then
+    r := old;
+  else
+    r := new;
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object(
+      'op', tg_op,
+      'record', case
+        when tg_op = 'DELETE' then jsonb_build_object('id', r.id)
+        else jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'avatar', coalesce(r.avatar, ''),
+          'avatarThumb', coalesce(r.avatar_thumb, ''),
+          'description', coalesce(r.description, ''),
+          'attributes', coalesce(r.attributes, '{}'::jsonb),
+          'userId', r.user_id,
+          'createdAt', r.created_at
+        )
+      end
+    ),
+    'profile',
+    'user:' || r.user_id::text,
+    true
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_broadcast on public.profiles;
+create trigger profiles_broadcast
+  after insert or update or delete on public.profiles
+  for each row
+  execute function public.broadcast_profile_change();
+
+create or replace function public.broadcast_category_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.categories;
+begin
+  if tg_op = 'DELETE' then
+    r := old;
+  else
+    r := new;
+  end if;
+
+  -- Moved to another profile: the old profile's viewers see it go away
+  if tg_op = 'UPDATE' and old.profile_id <> new.profile_id then
+    perform realtime.send(
+      jsonb_build_object(
+        'op', 'DELETE',
+        'record', jsonb_build_object('id', old.id, 'profileId', old.profile_id)
+      ),
+      'category',
+      'profile:' || old.profile_id::text,
+      true
+    );
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object(
+      'op', tg_op,
+      'record', case
+        when tg_op = 'DELETE' then jsonb_build_object('id', r.id, 'profileId', r.profile_id)
+        else jsonb_build_object(
+          'id', r.id,
+          'name', r.name,
+          'position', r.position,
+          'profileId', r.profile_id,
+          'userId', r.user_id,
+          'createdAt', r.created_at
+        )
+      end
+    ),
+    'category',
+    'profile:' || r.profile_id::text,
+    true
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists categories_broadcast on public.categories;
+create trigger categories_broadcast
+  after insert or delete or update of name, position, profile_id on public.categories
+  for each row
+  execute function public.broadcast_category_change();
+
+-- Re-embedding only touches the vector columns, so it isn't broadcast
+create or replace function public.broadcast_note_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.notes;
+begin
+  if tg_op = 'DELETE' then
+    r := old;
+  else
+    r := new;
+  end if;
+
+  -- Likewise for a note moved to another profile
+  if tg_op = 'UPDATE' and old.profile_id <> new.profile_id then
+    perform realtime.send(
+      jsonb_build_object(
+        'op', 'DELETE',
+        'record', jsonb_build_object(
+          'id', old.id,
+          'categoryId', old.category_id,
+          'profileId', old.profile_id
+        )
+      ),
+      'note',
+      'profile:' || old.profile_id::text,
+      true
+    );
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object(
+      'op', tg_op,
+      'record', case
+        when tg_op = 'DELETE' then jsonb_build_object(
+          'id', r.id,
+          'categoryId', r.category_id,
+          'profileId', r.profile_id
+        )
+        else jsonb_build_object(
+          'id', r.id,
+          'entry', coalesce(r.entry, ''),
+          'categoryId', r.category_id,
+          'profileId', r.profile_id,
+          'userId', r.user_id,
+          'createdAt', r.created_at,
+          'updatedAt', r.updated_at
+        )
+      end
+    ),
+    'note',
+    'profile:' || r.profile_id::text,
+    true
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists notes_broadcast on public.notes;
+create trigger notes_broadcast
+  after insert or delete or update of entry, category_id, profile_id, updated_at on public.notes
+  for each row
+  execute function public.broadcast_note_change();
@@ -0,0 +1,278 @@
+-- Profiles can be shared with other users as viewer or editor. The profile
+-- and everything under it stays owned by (user_id of) the profile's owner;
+-- profile_shares is the ACL the edge function checks on every
+-- /profiles/:profileId route before scoping queries by the owner's id.
+create table if not exists public.profile_shares (
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('viewer', 'editor')),
+  invited_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (profile_id, user_id)
+);
+
+create index if not exists profile_shares_user_id_idx
+  on public.profile_shares (user_id);
+
+-- The edge function uses the service role; nobody else gets direct access.
+alter table public.profile_shares enable row level security;
+
+-- Name shown for a user: their signup name, else their email
+create or replace function public.user_display_name(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(nullif(u.raw_user_meta_data ->> 'name', ''), u.email)
+  from auth.users u
+  where u.id = p_user_id;
+$$;
+
+-- Resolves an invitee's email (case-insensitive) to their user id
+create or replace function public.user_id_by_email(p_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.id
+  from auth.users u
+  where lower(u.email) = lower(trim(p_email))
+  limit 1;
+$$;
+
+-- Profiles shared with a user, as profile rows plus the user's role and who
+-- shared them
+create or replace function public.shared_profiles(p_user_id uuid)
+returns setof jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select to_jsonb(p) || jsonb_build_object(
+    'role', s.role,
+    'shared_by', public.user_display_name(p.user_id)
+  )
+  from public.profile_shares s
+  join public.profiles p on p.id = s.profile_id
+  where s.user_id = p_user_id
+  order by s.created_at, p.id;
+$$;
+
+-- Collaborators of a profile with their email and name
+create or replace function public.profile_collaborators(p_profile_id uuid)
+returns table (
+  user_id uuid,
+  email text,
+  name text,
+  role text,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.user_id, u.email::text, u.raw_user_meta_data ->> 'name', s.role,
+    s.created_at
+  from public.profile_shares s
+  join auth.users u on u.id = s.user_id
+  where s.profile_id = p_profile_id
+  order by s.created_at, s.user_id;
+$$;
+
+revoke execute on function public.user_display_name(uuid) from public, anon, authenticated;
+revoke execute on function public.user_id_by_email(text) from public, anon, authenticated;
+revoke execute on function public.shared_profiles(uuid) from public, anon, authenticated;
+revoke execute on function public.profile_collaborators(uuid) from public, anon, authenticated;
+
+-- ---- Realtime ----
+-- Collaborators can join a shared profile's channel, and their user channel
+-- gets the profile's changes too (see 20261019160000_realtime_broadcasts.sql).
+
+create or replace function public.realtime_topic_allowed(p_topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with topic_profile as (
+    select case
+      when p_topic ~ '^profile:[0-9a-f-]{36}$'
+      then substr(p_topic, length('profile:') + 1)::uuid
+    end as id
+  )
+  select p_topic = 'user:' || auth.uid()::text
+    or exists (
+      select 1
+      from public.profiles p, topic_profile t
+      where p.id = t.id
+        and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1
+      from public.profile_shares s, topic_profile t
+      where s.profile_id = t.id
+        and s.user_id = auth.uid()
+    );
+$$;
+
+-- A profile as broadcast on user channels; `role` and `sharedBy` are the
+-- recipient's view of it
+create or replace function public.profile_broadcast_record(
+  r public.profiles,
+  p_role text
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', r.id,
+    'name', r.name,
+    'avatar', coalesce(r.avatar, ''),
+    'avatarThumb', coalesce(r.avatar_thumb, ''),
+    'description', coalesce(r.description, ''),
+    'attributes', coalesce(r.attributes, '{}'::jsonb),
+    'userId', r.user_id,
+    'createdAt', r.created_at,
+    'role', p_role
+  ) || case
+    when p_role = 'owner' then '{}'::jsonb
+    else jsonb_build_object('sharedBy', public.user_display_name(r.user_id))
+  end;
+$$;
+
+create or replace function public.broadcast_profile_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.profiles;
+  s record;
+begin
+  if tg_op = 'DELETE' then
+    r := old;
+  else
+    r := new;
+  end if;
+
+  perform realtime.send(
+    jsonb_build_object(
+      'op', tg_op,
+      'record', case
+        when tg_op = 'DELETE' then jsonb_build_object('id', r.id)
+        else public.profile_broadcast_record(r, 'owner')
+      end
+    ),
+    'profile',
+    'user:' || r.user_id::text,
+    true
+  );
+
+  -- On delete the shares are removed by the cascade, whose trigger tells
+  -- the collaborators
+  if tg_op <> 'DELETE' then
+    for s in
+      select user_id, role from public.profile_shares where profile_id = r.id
+    loop
+      perform realtime.send(
+        jsonb_build_object(
+          'op', tg_op,
+          'record', public.profile_broadcast_record(r, s.role)
+        ),
+        'profile',
+        'user:' || s.user_id::text,
+        true
+      );
+    end loop;
+  end if;
+  return null;
+end;
+$$;
+
+-- Sharing a profile adds it to the collaborator's list, a new role updates
+-- it and unsharing removes it
+create or replace function public.broadcast_share_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.profile_shares;
+  r public.profiles;
+begin
+  if tg_op = 'DELETE' then
+    s := old;
+  else
+    s := new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    perform realtime.send(
+      jsonb_build_object('op', 'DELETE', 'record', jsonb_build_object('id', s.profile_id)),
+      'profile',
+      'user:' || s.user_id::text,
+      true
+    );
+    return null;
+  end if;
+
+  select * into r from public.profiles where id = s.profile_id;
+  perform realtime.send(
+    jsonb_build_object(
+      'op', tg_op,
+      'record', public.profile_broadcast_record(r, s.role)
+    ),
+    'profile',
+    'user:' || s.user_id::text,
+    true
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists profile_shares_broadcast on public.profile_shares;
+create trigger profile_shares_broadcast
+  after insert or delete or update of role on public.profile_shares
+  for each row
+  execute function public.broadcast_share_change();
+
+-- Reminders go to the owner and every collaborator, so one occurrence now
+-- has a row per recipient
+alter table public.reminders
+  drop constraint if exists reminders_occasion_id_occasion_date_days_before_key;
+alter table public.reminders
+  drop constraint if exists reminders_user_id_occasion_id_occasion_date_days_before_key;
+alter table public.reminders
+  add constraint reminders_user_id_occasion_id_occasion_date_days_before_key
+  unique (user_id, occasion_id, occasion_date, days_before);
+
+-- A collaborator who loses access stops seeing that profile's reminders
+create or replace function public.delete_share_reminders()
+returns trigger
+language plpgsql
+as $$
+begin
+  delete from public.reminders
+  where user_id = old.user_id and profile_id = old.profile_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists profile_shares_delete_reminders on public.profile_shares;
+create trigger profile_shares_delete_reminders
+  after delete on public.profile_shares
+  for each row
+  execute function public.delete_share_reminders();
@@ -49,6 +49,7 @@
         '@jsr/supabase__supabase-js@2.49.8': '@jsr/supabase__supabase-js',
         '@jsr/supabase__supabase-js@2': '@jsr/supabase__supabase-js',
         '@': path.resolve(__dirname, './src'),
+        '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
       },
     },
     build: {